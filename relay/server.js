@@ -0,0 +1,38 @@
+// Tiny relay for syncing a session between devices on the same network.
+// Every message is passed on to the other devices in the same room; the
+// hosting device decides what happens to the session.
+//
+//   npm run relay            listens on port 8787
+//   PORT=9000 npm run relay  listens on another port
+import { WebSocketServer } from 'ws'
+
+const port = Number(process.env.PORT) || 8787
+const server = new WebSocketServer({ port })
+const rooms = new Map()
+
+server.on('connection', (socket, request) => {
+  const room = new URL(request.url ?? '/', 'http://relay').searchParams.get('room')
+  if (!room) {
+    socket.close(1008, 'Missing room')
+    return
+  }
+
+  if (!rooms.has(room)) rooms.set(room, new Set())
+  const members = rooms.get(room)
+  members.add(socket)
+
+  socket.on('message', (data) => {
+    for (const member of members) {
+      if (member !== socket && member.readyState === member.OPEN) {
+        member.send(data.toString())
+      }
+    }
+  })
+
+  socket.on('close', () => {
+    members.delete(socket)
+    if (members.size === 0) rooms.delete(room)
+  })
+})
+
+console.log(`Relay listening on ws://0.0.0.0:${port}`)
@@ -2,11 +2,41 @@ import { useState } from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { PlayerSetup } from './components/PlayerSetup'
 import { MatchesPage } from './components/MatchesPage'
-import { Session } from './types'
+import { ClubRosterPage } from './components/ClubRosterPage'
+import { SessionViewer } from './components/SessionViewer'
+import { JoinSessionPage } from './components/JoinSessionPage'
+import { ResumePrompt } from './components/ResumePrompt'
+import { SessionState } from './types'
+import { PersistedSession, clearSession, loadSession } from './utils/persistence'
+import { SyncSettings } from './utils/sync'
 import './App.css'
 
 function App() {
-  const [session, setSession] = useState<Session | null>(null)
+  const [sessionState, setSessionState] = useState<SessionState | null>(null)
+  const [savedSession, setSavedSession] = useState<PersistedSession | null>(() => loadSession())
+  const [joinedSync, setJoinedSync] = useState<SyncSettings | null>(null)
+
+  const handleResume = () => {
+    if (!savedSession) return
+    setSessionState(savedSession)
+  }
+
+  const handleStartNew = () => {
+    clearSession()
+    setSavedSession(null)
+  }
+
+  const handleBackToSetup = () => {
+    // The running session stays saved, so setup offers to resume it
+    setSavedSession(loadSession())
+    setSessionState(null)
+    setJoinedSync(null)
+  }
+
+  const handleJoined = (state: SessionState, sync: SyncSettings) => {
+    setJoinedSync(sync)
+    setSessionState(state)
+  }
 
   return (
     <Router>
@@ -15,18 +45,31 @@ function App() {
           <Route
             path="/"
             element={
-              session ? (
+              sessionState ? (
                 <Navigate to="/matches" replace />
+              ) : savedSession ? (
+                <ResumePrompt
+                  savedSession={savedSession}
+                  onResume={handleResume}
+                  onStartNew={handleStartNew}
+                />
               ) : (
-                <PlayerSetup onSessionGenerated={setSession} />
+                <PlayerSetup onSessionGenerated={setSessionState} />
               )
             }
           />
+          <Route path="/roster" element={<ClubRosterPage />} />
+          <Route path="/view" element={<SessionViewer />} />
+          <Route path="/join" element={<JoinSessionPage onJoined={handleJoined} />} />
           <Route
             path="/matches"
             element={
-              session ? (
-                <MatchesPage initialSession={session} />
+              sessionState ? (
+                <MatchesPage
+                  initialState={sessionState}
+                  initialSync={joinedSync}
+                  onBackToSetup={handleBackToSetup}
+                />
               ) : (
                 <Navigate to="/" replace />
               )
@@ -0,0 +1,72 @@
+import { SessionState } from '../types'
+import {
+  calculateRestStats,
+  comparePriorityKeys,
+  findProtectedPlayers,
+  playPriorityKey,
+} from '../utils/sitOuts'
+import { getAvailablePlayers, getCountedGames, getSittingOutIds } from '../utils/sessionEngine'
+
+interface BenchPanelProps {
+  state: SessionState;
+  // The player picked for a swap, if any
+  selectedPlayerId: string | null;
+  onSelectPlayer: (playerId: string) => void;
+}
+
+export function BenchPanel({ state, selectedPlayerId, onSelectPlayer }: BenchPanelProps) {
+  const { session, matchStates, benches, currentRound } = state
+  const restStats = calculateRestStats(getAvailablePlayers(session), matchStates, benches, currentRound)
+  const protectedIds = findProtectedPlayers(
+    restStats,
+    session.mixedDoubles ? (player) => player.category ?? '' : undefined
+  )
+  const isRolling = session.scheduleMode === 'rolling'
+  const benchIds = getSittingOutIds(state)
+  const countedGames = getCountedGames(state)
+
+  // Order the bench the way the generator will pick players next round
+  const upNext = benchIds
+    .map(id => ({
+      rest: restStats.get(id),
+      key: playPriorityKey(restStats.get(id), countedGames.get(id) ?? 0, protectedIds.has(id)),
+    }))
+    .sort((a, b) => comparePriorityKeys(a.key, b.key))
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-1 text-[#222222]">Bench / Up Next</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        {isRolling ? 'Waiting for a court' : `Sitting out round ${currentRound}`}, in the order they'll be picked
+      </p>
+      {upNext.length === 0 ? (
+        <p className="text-sm text-gray-600">Everyone is on court{isRolling ? '' : ' this round'}.</p>
+      ) : (
+        <ol className="space-y-2">
+          {upNext.map(({ rest }, index) => rest && (
+            <li
+              key={rest.player.id}
+              className={`flex justify-between items-center p-3 rounded-lg border ${
+                selectedPlayerId === rest.player.id ? 'bg-[#FFF8F6] border-[#FF385C]' : 'bg-gray-50 border-transparent'
+              }`}
+            >
+              <button
+                onClick={() => onSelectPlayer(rest.player.id)}
+                title="Tap, then tap a player in a match to swap them"
+                className="text-left text-[#222222] font-medium hover:text-[#FF385C] transition-colors duration-200"
+              >
+                <span className="text-[#FF385C] mr-2">{index + 1}.</span>
+                {rest.player.name}
+              </button>
+              <span className="text-sm text-gray-600">
+                {rest.consecutiveRests > 1
+                  ? `${rest.consecutiveRests} rounds in a row`
+                  : `Rested ${rest.roundsRested}×`}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
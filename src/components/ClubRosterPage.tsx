@@ -0,0 +1,235 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { ClubMember, ClubRoster, PlayerCategory } from '../types'
+import {
+  addMember,
+  CATEGORY_LABELS,
+  MemberDetails,
+  searchMembers,
+  SKILL_LEVEL_LABELS,
+  sortByAttendance,
+  updateMember,
+} from '../utils/clubRoster'
+import { loadRoster, saveRoster } from '../utils/persistence'
+import { Header } from './Header'
+
+const EMPTY_DETAILS: MemberDetails = { name: '' }
+
+const inputClassName =
+  'px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]'
+
+interface MemberFormProps {
+  details: MemberDetails;
+  onChange: (details: MemberDetails) => void;
+}
+
+function MemberForm({ details, onChange }: MemberFormProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+      <input
+        type="text"
+        value={details.name}
+        onChange={(e) => onChange({ ...details, name: e.target.value })}
+        placeholder="Name"
+        aria-label="Name"
+        className={inputClassName}
+      />
+      <select
+        value={details.level ?? ''}
+        onChange={(e) => onChange({ ...details, level: e.target.value ? Number(e.target.value) : undefined })}
+        aria-label="Skill level"
+        className={inputClassName}
+      >
+        <option value="">Level not set</option>
+        {Object.entries(SKILL_LEVEL_LABELS).map(([level, label]) => (
+          <option key={level} value={level}>{label}</option>
+        ))}
+      </select>
+      <select
+        value={details.category ?? ''}
+        onChange={(e) => onChange({ ...details, category: (e.target.value || undefined) as PlayerCategory | undefined })}
+        aria-label="Category"
+        className={inputClassName}
+      >
+        <option value="">Category not set</option>
+        {(Object.keys(CATEGORY_LABELS) as PlayerCategory[]).map(category => (
+          <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+        ))}
+      </select>
+      <input
+        type="text"
+        value={details.notes ?? ''}
+        onChange={(e) => onChange({ ...details, notes: e.target.value || undefined })}
+        placeholder="Notes"
+        aria-label="Notes"
+        className={`${inputClassName} sm:col-span-3`}
+      />
+    </div>
+  )
+}
+
+function describeAttendance(member: ClubMember): string {
+  if (!member.lastAttendedAt) return 'Not played yet'
+  const lastPlayed = new Date(member.lastAttendedAt).toLocaleDateString([], { day: 'numeric', month: 'short' })
+  return `${member.sessionsAttended} ${member.sessionsAttended === 1 ? 'session' : 'sessions'}, last ${lastPlayed}`
+}
+
+export function ClubRosterPage() {
+  const [roster, setRoster] = useState<ClubRoster>(() => loadRoster())
+  const [newMember, setNewMember] = useState<MemberDetails>(EMPTY_DETAILS)
+  const [editing, setEditing] = useState<{ memberId: string; details: MemberDetails } | null>(null)
+  const [query, setQuery] = useState('')
+  const [showArchived, setShowArchived] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Every change is saved straight away; returns false if it was rejected
+  const applyChange = (change: (roster: ClubRoster) => ClubRoster): boolean => {
+    try {
+      const updated = change(roster)
+      saveRoster(updated)
+      setRoster(updated)
+      setError(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update the roster')
+      return false
+    }
+  }
+
+  const handleAdd = () => {
+    if (applyChange(current => addMember(current, newMember))) {
+      setNewMember(EMPTY_DETAILS)
+    }
+  }
+
+  const handleSave = () => {
+    if (editing && applyChange(current => updateMember(current, editing.memberId, editing.details))) {
+      setEditing(null)
+    }
+  }
+
+  const members = sortByAttendance(searchMembers(roster, query, showArchived))
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-[#222222]">Club Roster</h2>
+            <Link to="/" className="text-sm text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200">
+              Back to Setup
+            </Link>
+          </div>
+
+          <div className="mb-6">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Add Member</h3>
+            <MemberForm details={newMember} onChange={setNewMember} />
+            <button
+              onClick={handleAdd}
+              className="mt-2 px-6 py-2 bg-[#FF385C] text-white rounded-lg hover:bg-[#E61E4D] focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+            >
+              Add Member
+            </button>
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-4">
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search by name or notes"
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+                className="accent-[#FF385C]"
+              />
+              Show archived
+            </label>
+          </div>
+
+          {members.length === 0 && (
+            <p className="text-sm text-gray-500">
+              {roster.members.length === 0 ? 'No members yet' : 'No members match the search'}
+            </p>
+          )}
+          <ul className="space-y-2">
+            {members.map(member => (
+              <li
+                key={member.id}
+                className={`p-3 rounded-lg border border-gray-200 ${member.archived ? 'bg-gray-100 text-gray-400' : 'bg-gray-50'}`}
+              >
+                {editing?.memberId === member.id ? (
+                  <>
+                    <MemberForm
+                      details={editing.details}
+                      onChange={(details) => setEditing({ memberId: member.id, details })}
+                    />
+                    <div className="flex gap-3 mt-2 text-sm">
+                      <button
+                        onClick={handleSave}
+                        className="text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditing(null)}
+                        className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex justify-between items-start gap-3">
+                    <div>
+                      <span className={member.archived ? 'font-medium' : 'text-[#222222] font-medium'}>
+                        {member.name}
+                        {member.archived && <span className="ml-2 text-xs">Archived</span>}
+                      </span>
+                      <p className="text-xs text-gray-500">
+                        {[
+                          member.level !== undefined && `Level ${member.level}`,
+                          member.category && CATEGORY_LABELS[member.category],
+                          describeAttendance(member),
+                        ].filter(Boolean).join(' · ')}
+                      </p>
+                      {member.notes && <p className="text-xs text-gray-500 mt-1">{member.notes}</p>}
+                    </div>
+                    <span className="flex gap-3 text-sm">
+                      <button
+                        onClick={() => setEditing({
+                          memberId: member.id,
+                          details: { name: member.name, level: member.level, category: member.category, notes: member.notes },
+                        })}
+                        className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => applyChange(current => updateMember(current, member.id, { archived: !member.archived }))}
+                        className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+                      >
+                        {member.archived ? 'Restore' : 'Archive'}
+                      </button>
+                    </span>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
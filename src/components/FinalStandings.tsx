@@ -0,0 +1,74 @@
+import { SessionFormat } from '../types'
+import { getRanks, SESSION_FORMAT_LABELS, Standing } from '../utils/socialFormats'
+import { Header } from './Header'
+
+interface FinalStandingsProps {
+  format: SessionFormat;
+  standings: Standing[];
+  onClose: () => void;
+}
+
+const PODIUM_STYLES = [
+  'bg-[#FF385C] text-white',
+  'bg-[#FFF8F6] text-[#222222] border border-[#FF385C]',
+  'bg-gray-50 text-[#222222] border border-gray-200',
+]
+
+export function FinalStandings({ format, standings, onClose }: FinalStandingsProps) {
+  const ranks = getRanks(standings)
+  const podium = standings.slice(0, 3)
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-2xl mx-auto p-6">
+        <button
+          onClick={onClose}
+          className="mb-4 text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+        >
+          Back to Matches
+        </button>
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold mb-4 text-[#222222]">{SESSION_FORMAT_LABELS[format]} Final Standings</h2>
+
+          <div className="grid grid-cols-3 gap-3 mb-6">
+            {podium.map((standing, index) => (
+              <div key={standing.player.id} className={`p-4 rounded-lg text-center ${PODIUM_STYLES[index]}`}>
+                <div className="text-3xl font-bold">{ranks[index]}</div>
+                <div className="font-medium truncate">{standing.player.name}</div>
+                <div className="text-sm">{standing.points} points</div>
+              </div>
+            ))}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1 font-medium">#</th>
+                <th className="py-1 font-medium">Player</th>
+                <th className="py-1 font-medium text-right">Points</th>
+                <th className="py-1 font-medium text-right">Played</th>
+                <th className="py-1 font-medium text-right">Won</th>
+                <th className="py-1 font-medium text-right">Diff</th>
+              </tr>
+            </thead>
+            <tbody>
+              {standings.map((standing, index) => (
+                <tr key={standing.player.id} className="border-t border-gray-100 text-[#222222]">
+                  <td className="py-1 text-gray-500">{ranks[index]}</td>
+                  <td className="py-1">{standing.player.name}</td>
+                  <td className="py-1 text-right font-medium text-[#FF385C]">{standing.points}</td>
+                  <td className="py-1 text-right">{standing.played}</td>
+                  <td className="py-1 text-right">{standing.wins}</td>
+                  <td className="py-1 text-right">
+                    {standing.pointDifference > 0 ? `+${standing.pointDifference}` : standing.pointDifference}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { MatchState, Player, TournamentSettings } from '../types'
+import { calculateGroupTables, getGroupName, getTeamName } from '../utils/tournament'
+
+interface GroupTablesPanelProps {
+  tournament: TournamentSettings;
+  players: Player[];
+  matchStates: MatchState[];
+}
+
+const formatDifference = (difference: number) => (difference > 0 ? `+${difference}` : String(difference))
+
+export function GroupTablesPanel({ tournament, players, matchStates }: GroupTablesPanelProps) {
+  const tables = calculateGroupTables(tournament, matchStates)
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-1 text-[#222222]">Groups</h2>
+      <p className="text-xs text-gray-500 mb-4">
+        Ranked on wins, then game difference, then point difference. The top {tournament.qualifiersPerGroup} go through.
+      </p>
+      <div className="space-y-4">
+        {tables.map((rows, group) => (
+          <table key={group} className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-1 font-medium">Group {getGroupName(group)}</th>
+                <th className="py-1 font-medium text-right" title="Played">P</th>
+                <th className="py-1 font-medium text-right" title="Won">W</th>
+                <th className="py-1 font-medium text-right" title="Game difference">GD</th>
+                <th className="py-1 font-medium text-right" title="Point difference">PD</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={row.team.id} className="border-t border-gray-100 text-[#222222]">
+                  <td className={`py-1 ${index < tournament.qualifiersPerGroup ? 'font-medium text-[#FF385C]' : ''}`}>
+                    {getTeamName(row.team, players)}
+                  </td>
+                  <td className="py-1 text-right">{row.played}</td>
+                  <td className="py-1 text-right">{row.wins}</td>
+                  <td className="py-1 text-right">{formatDifference(row.gameDifference)}</td>
+                  <td className="py-1 text-right">{formatDifference(row.pointDifference)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { SessionState } from '../types'
+import { createTransport, parseRelayUrl, SyncSettings, SyncTransport } from '../utils/sync'
+import { normalizeSeed } from '../utils/random'
+import { Header } from './Header'
+
+interface JoinSessionPageProps {
+  onJoined: (state: SessionState, sync: SyncSettings) => void;
+}
+
+// How long to wait for the host to answer before giving up
+const JOIN_TIMEOUT_MS = 10000
+
+export function JoinSessionPage({ onJoined }: JoinSessionPageProps) {
+  const navigate = useNavigate()
+  const [room, setRoom] = useState('')
+  const [relayUrl, setRelayUrl] = useState('')
+  const [isJoining, setIsJoining] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // The join waiting for the host, stopped if the page is left first
+  const pendingJoin = useRef<{ transport: SyncTransport; timeout: ReturnType<typeof setTimeout> } | null>(null)
+
+  const stopJoining = () => {
+    if (!pendingJoin.current) return
+    clearTimeout(pendingJoin.current.timeout)
+    pendingJoin.current.transport.close()
+    pendingJoin.current = null
+  }
+
+  useEffect(() => stopJoining, [])
+
+  const join = () => {
+    let sync: SyncSettings
+    try {
+      if (!room.trim()) {
+        throw new Error('Enter the session code shown on the hosting device')
+      }
+      sync = { role: 'follower', room: normalizeSeed(room), relayUrl: parseRelayUrl(relayUrl) }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to join the session')
+      return
+    }
+
+    // Ask the host for the session once, then hand over to the matches page
+    const deviceId = crypto.randomUUID()
+    const transport = createTransport(sync, () => {})
+    const timeout = setTimeout(() => {
+      stopJoining()
+      setIsJoining(false)
+      setError('No device is hosting that session. Check the code, and that it has started syncing.')
+    }, JOIN_TIMEOUT_MS)
+    transport.subscribe(message => {
+      if (message.type !== 'state') return
+      stopJoining()
+      onJoined(message.state, sync)
+      navigate('/matches')
+    })
+    pendingJoin.current = { transport, timeout }
+    transport.send({ type: 'hello', from: deviceId })
+    setIsJoining(true)
+    setError(null)
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-xl font-semibold text-[#222222]">Follow a Session</h2>
+            <Link to="/" className="text-sm text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200">
+              Back to Setup
+            </Link>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Show a session running on another device here. Results recorded on either device show up on both.
+          </p>
+          <div className="space-y-2 mb-4">
+            <input
+              type="text"
+              value={room}
+              onChange={(e) => setRoom(e.target.value)}
+              placeholder="Session code"
+              aria-label="Session code"
+              className="w-full px-4 py-2 font-mono border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={relayUrl}
+              onChange={(e) => setRelayUrl(e.target.value)}
+              placeholder="Relay, e.g. ws://192.168.1.20:8787 (empty for another tab)"
+              aria-label="Relay address"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+            />
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+
+          <button
+            onClick={join}
+            disabled={isJoining}
+            className={`w-full px-4 py-2 rounded-lg text-white ${
+              isJoining ? 'bg-gray-400 cursor-not-allowed' : 'bg-[#FF385C] hover:bg-[#E61E4D]'
+            } focus:outline-none focus:ring-2 focus:ring-[#FF385C]`}
+          >
+            {isJoining ? 'Waiting for the host…' : 'Follow Session'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
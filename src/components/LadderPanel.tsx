@@ -0,0 +1,56 @@
+import { SessionState } from '../types'
+import { getCourtHistory } from '../utils/ladder'
+
+interface LadderPanelProps {
+  state: SessionState;
+}
+
+export function LadderPanel({ state }: LadderPanelProps) {
+  const { session, matchStates, currentRound } = state
+  const history = getCourtHistory(session.players, matchStates, currentRound)
+  // Top court first, then whoever is sitting out
+  const courtNow = (courts: (number | null)[]) => courts[currentRound - 1] ?? session.numberOfCourts + 1
+  const rows = session.players
+    .map(player => ({ player, courts: history.get(player.id) ?? [] }))
+    .filter(row => row.courts.some(court => court !== null))
+    .sort((a, b) => courtNow(a.courts) - courtNow(b.courts))
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-1 text-[#222222]">Court Movement</h2>
+      <p className="text-xs text-gray-500 mb-4">The court played each round, court 1 at the top</p>
+      <div className="space-y-2">
+        {rows.map(({ player, courts }) => (
+          <div key={player.id} className="flex items-center gap-2 text-sm">
+            <span className="w-24 truncate text-[#222222]">{player.name}</span>
+            <div className="flex flex-wrap gap-1">
+              {courts.map((court, index) => {
+                const previous = courts.slice(0, index).reverse().find(c => c !== null) ?? null
+                const movement = court === null || previous === null || court === previous
+                  ? ''
+                  : court < previous ? '↑' : '↓'
+                return (
+                  <span
+                    key={index}
+                    title={`Round ${index + 1}`}
+                    className={`px-1 rounded ${
+                      court === null
+                        ? 'text-gray-300'
+                        : movement === '↑'
+                          ? 'bg-green-50 text-green-700'
+                          : movement === '↓'
+                            ? 'bg-red-50 text-red-700'
+                            : 'bg-gray-50 text-gray-600'
+                    }`}
+                  >
+                    {court === null ? '-' : `${movement}${court}`}
+                  </span>
+                )
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
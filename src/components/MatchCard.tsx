@@ -0,0 +1,155 @@
+import { MatchState, Session } from '../types'
+import { describePairingRule } from '../utils/pairingRules'
+import { formatResult, getTeams } from '../utils/scoring'
+import { formatDuration, getMatchDuration, getTimeRemaining } from '../utils/timing'
+
+interface MatchCardProps {
+  matchState: MatchState;
+  session: Session;
+  label: string;
+  now: number;
+  // The player picked for a swap, if any
+  selectedPlayerId: string | null;
+  // Left out where players can't be swapped
+  onSelectPlayer?: (playerId: string) => void;
+  onStart: () => void;
+  onScore: () => void;
+}
+
+export function MatchCard({
+  matchState,
+  session,
+  label,
+  now,
+  selectedPlayerId,
+  onSelectPlayer,
+  onStart,
+  onScore,
+}: MatchCardProps) {
+  const remaining = getTimeRemaining(matchState, session.gameLengthMinutes, now)
+  const duration = getMatchDuration(matchState)
+  const isTimeUp = remaining !== null && remaining <= 0
+
+  return (
+    <div
+      className={`p-4 rounded-lg border ${
+        matchState.completed
+          ? 'bg-gray-100 border-gray-300'
+          : isTimeUp
+            ? 'bg-[#FFF8F6] border-[#FF385C]'
+            : 'bg-white border-gray-200'
+      }`}
+    >
+      <div className="flex justify-between items-center mb-2">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-[#222222]">Court {matchState.match.court}</span>
+          <span className="text-sm text-gray-500">•</span>
+          <span className="font-medium text-[#222222]">{label}</span>
+        </div>
+        <span className="text-sm text-gray-600">
+          {matchState.match.side === 'left' ? 'Left Side' : 'Right Side'}
+        </span>
+      </div>
+      {!matchState.completed && (
+        <div className="flex justify-end mb-2 text-sm">
+          {matchState.startedAt === undefined ? (
+            <button
+              onClick={onStart}
+              className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+            >
+              Start Timer
+            </button>
+          ) : remaining === null ? (
+            <span className="font-mono text-gray-600">{formatDuration(now - matchState.startedAt)}</span>
+          ) : isTimeUp ? (
+            <span className="font-semibold text-[#FF385C]">Time's up</span>
+          ) : (
+            <span className="font-mono text-gray-600">{formatDuration(remaining)} left</span>
+          )}
+        </div>
+      )}
+      <div className="flex justify-between items-center">
+        {getTeams(matchState.match).map((team, teamIndex) => {
+          const isWinner = matchState.result?.winner === (teamIndex === 0 ? 'team1' : 'team2')
+          return (
+            <div key={teamIndex} className={`flex flex-col ${teamIndex === 0 ? 'order-1' : 'order-3 items-end'}`}>
+              {team.map((player) => matchState.completed || !onSelectPlayer ? (
+                <span
+                  key={player.id}
+                  className={isWinner ? 'text-[#FF385C] font-semibold' : 'text-[#222222]'}
+                >
+                  {player.name}
+                </span>
+              ) : (
+                <button
+                  key={player.id}
+                  onClick={() => onSelectPlayer(player.id)}
+                  title="Tap two players to swap them"
+                  className={`-mx-1 px-1 rounded transition-colors duration-200 ${
+                    selectedPlayerId === player.id
+                      ? 'bg-[#FF385C] text-white'
+                      : 'text-[#222222] hover:text-[#FF385C]'
+                  }`}
+                >
+                  {player.name}
+                </button>
+              ))}
+            </div>
+          )
+        })}
+        <span className="order-2 text-gray-500">vs</span>
+      </div>
+      {matchState.match.brokenRuleIds && (
+        <p className="mt-2 text-xs text-amber-700">
+          Couldn't keep:{' '}
+          {matchState.match.brokenRuleIds
+            .map(ruleId => session.pairingRules.find(rule => rule.id === ruleId))
+            .map(rule => rule && describePairingRule(rule, session.players))
+            .filter(Boolean)
+            .join('; ')}
+        </p>
+      )}
+      {!matchState.completed && (
+        <div className="mt-2 flex justify-end">
+          <button
+            onClick={onScore}
+            className="flex items-center space-x-2 text-sm text-gray-600 hover:text-[#FF385C] transition-colors duration-200 bg-white border border-gray-200 rounded-lg px-3 py-1 hover:border-[#FF385C]"
+          >
+            <span>Complete Match</span>
+          </button>
+        </div>
+      )}
+      {matchState.completed && (
+        <div className="mt-2 flex justify-end items-center gap-2">
+          {matchState.result && (
+            <span className="text-sm text-gray-600 mr-auto">
+              Winner: {getTeams(matchState.match)[matchState.result.winner === 'team1' ? 0 : 1].map(player => player.name).join(' & ')}
+              {matchState.result.games.length > 0 && ` (${formatResult(matchState.result)})`}
+              {duration !== null && ` in ${Math.round(duration / 60000)} min`}
+            </span>
+          )}
+          <button
+            onClick={onScore}
+            className="text-sm text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+          >
+            Edit Score
+          </button>
+          <svg 
+            className="w-5 h-5 text-green-500 animate-fade-in" 
+            fill="none" 
+            stroke="currentColor" 
+            viewBox="0 0 24 24"
+          >
+            <path 
+              strokeLinecap="round" 
+              strokeLinejoin="round" 
+              strokeWidth={2} 
+              d="M5 13l4 4L19 7" 
+            />
+          </svg>
+          <span className="text-sm text-green-600 animate-fade-in">Completed</span>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,211 +1,259 @@
-import { useState, useEffect } from 'react'
-import { Player, Match, Session } from '../types'
-import { generateNextRound } from '../utils/matchGenerator'
+import { useState, useEffect, useRef } from 'react'
+import { MatchResult, MatchState, PlayerStatus, SessionState, SessionStep } from '../types'
+import {
+  createSessionEngine,
+  getBlockedMatches,
+  getPendingMatches,
+  getRedoStep,
+  getRoundMatches,
+  getUndoStep,
+  getWaitingPlayers,
+  isFinalRound,
+  SessionEngine,
+} from '../utils/sessionEngine'
+import { calculatePlayerStats } from '../utils/scoring'
+import { saveSession } from '../utils/persistence'
+import { calculateRatings } from '../utils/ratings'
+import { calculateStandings, scoresIndividualPoints } from '../utils/socialFormats'
+import { getFixtureLabels } from '../utils/tournament'
+import { minPlayersForCourt } from '../utils/matchGenerator'
+import { getBench } from '../utils/sitOuts'
+import { averageMatchDuration, estimateRoundsLeft, getTimeRemaining } from '../utils/timing'
+import { playTimeUpAlert } from '../utils/alerts'
+import { downloadFile } from '../utils/download'
+import { exportFileName, exportSessionCsv, exportSessionJson } from '../utils/sessionExport'
+import { applyProposal, createTransport, SyncMessage, SyncSettings, SyncStatus, SyncTransport } from '../utils/sync'
 import { Header } from './Header'
+import { ScoreDialog } from './ScoreDialog'
+import { BenchPanel } from './BenchPanel'
+import { PlayerStatsPanel } from './PlayerStatsPanel'
+import { RosterPanel } from './RosterPanel'
+import { MatchCard } from './MatchCard'
+import { SharePanel } from './SharePanel'
+import { SyncPanel } from './SyncPanel'
+import { StandingsPanel } from './StandingsPanel'
+import { FinalStandings } from './FinalStandings'
+import { LadderPanel } from './LadderPanel'
+import { GroupTablesPanel } from './GroupTablesPanel'
+import { TournamentBracket } from './TournamentBracket'
 
-interface MatchesPageProps {
-  initialSession: Session;
+// What undo and redo say they will take back or bring back
+const STEP_LABELS: Record<SessionStep['type'], string> = {
+  nextRound: 'Next Round',
+  refreshRound: 'Refresh',
+  redrawRound: 'Redraw',
+  addPlayer: 'New Player',
+  setPlayerStatus: 'Player Change',
+  swapPlayers: 'Swap',
+  startMatch: 'Timer Start',
+  recordCompletion: 'Result',
 }
 
-interface PlayerStats {
-  player: Player;
-  doublesMatchesPlayed: number;
-  singlesMatchesPlayed: number;
+interface MatchesPageProps {
+  initialState: SessionState;
+  // Set when this device joined a session hosted on another device
+  initialSync?: SyncSettings | null;
+  onBackToSetup: () => void;
 }
 
-interface MatchState {
-  match: Match;
-  completed: boolean;
-  completedAt?: number;
-  round: number;
-}
+export function MatchesPage({ initialState, initialSync = null, onBackToSetup }: MatchesPageProps) {
+  const [state, setState] = useState<SessionState>(initialState)
+  const [scoringMatchId, setScoringMatchId] = useState<string | null>(null)
+  const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null)
+  const [showFinalStandings, setShowFinalStandings] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+  const alertedMatchIds = useRef(new Set<string>())
+  const [sync, setSync] = useState<SyncSettings | null>(initialSync)
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>('disconnected')
+  const [deviceId] = useState(() => crypto.randomUUID())
+  const transport = useRef<SyncTransport | null>(null)
+  // Incoming messages need the latest state, not the one the listener saw
+  const stateRef = useRef(state)
+  stateRef.current = state
+  const isFollower = sync?.role === 'follower'
+
+  const { session, matchStates, currentRound } = state
+  const undoStep = getUndoStep(state)
+  const redoStep = getRedoStep(state)
+  const playerStats = calculatePlayerStats(session.players, matchStates)
+  const ratings = calculateRatings(session.players, matchStates)
+  const scoringMatch = matchStates.find(ms => ms.match.id === scoringMatchId)
+  const scoresPoints = scoresIndividualPoints(session.format)
+  const standings = scoresPoints ? calculateStandings(session.players, matchStates) : []
+  const { tournament } = session
+  const fixtureLabels = tournament ? getFixtureLabels(tournament, matchStates) : null
+  const finalRound = isFinalRound(state)
+
+  const isRolling = session.scheduleMode === 'rolling'
+  const courts = Array.from({ length: session.numberOfCourts }, (_, i) => i + 1)
+
+  // After a roster change the current round may need redrawing: someone in
+  // a pending match is gone, or there are now enough players for an idle court
+  const blockedMatches = getBlockedMatches(state)
+  const currentRoundMatches = getRoundMatches(state, currentRound)
+  const waitingPlayers = getWaitingPlayers(state)
+  // A tournament only plays the fixtures that are ready, so a free court
+  // doesn't mean anyone can use it
+  const canFillIdleCourt = !tournament && (isRolling
+    ? courts
+      .filter(court => !getPendingMatches(state).some(ms => ms.match.court === court))
+      .some(court => waitingPlayers.length >= minPlayersForCourt(session.leftoverFormats[court - 1]))
+    : !currentRoundMatches.every(ms => ms.completed) &&
+      courts
+        .filter(court => !currentRoundMatches.some(ms => ms.match.court === court))
+        .some(court => getBench(state.benches, currentRound).length >= minPlayersForCourt(session.leftoverFormats[court - 1])))
 
-export function MatchesPage({ initialSession }: MatchesPageProps) {
-  const [session, setSession] = useState<Session>(initialSession)
-  const [matchStates, setMatchStates] = useState<MatchState[]>([])
-  const [playerStats, setPlayerStats] = useState<PlayerStats[]>([])
-  const [allCompletedMatches, setAllCompletedMatches] = useState<Match[]>([])
-  const [lastCompletedMatch, setLastCompletedMatch] = useState<MatchState | null>(null)
-  const [currentRound, setCurrentRound] = useState(1)
+  const selectedPlayer = session.players.find(player => player.id === selectedPlayerId)
+  const benchLabel = isRolling ? ' or waiting' : ' or on the bench'
 
-  // Initialize match states and player stats
+  const averageDuration = averageMatchDuration(matchStates)
+  const roundsLeft = estimateRoundsLeft(state, now)
+
+  // Save after every change so a reload can resume the evening. A follower
+  // only mirrors the host, so it leaves this device's own save alone.
   useEffect(() => {
-    // Merge existing match states with new ones
-    const updatedStates = session.matches.map(match => {
-      // Check if this match already exists in matchStates
-      const existingState = matchStates.find(ms => ms.match.id === match.id);
-      if (existingState) {
-        // Preserve the existing state (especially the 'completed' flag)
-        return existingState;
-      }
-      // Create a new state for this match
-      return {
-        match,
-        completed: false,
-        round: currentRound
-      };
-    });
-    
-    setMatchStates(updatedStates);
-
-    // Only initialize player stats if empty
-    if (playerStats.length === 0) {
-      const stats = session.players.map(player => ({
-        player,
-        doublesMatchesPlayed: 0,
-        singlesMatchesPlayed: 0
-      }));
-      setPlayerStats(stats);
-    }
-  }, [session]);
-
-  const handleMatchComplete = (matchId: string) => {
-    const matchState = matchStates.find(ms => ms.match.id === matchId)
-    if (!matchState || matchState.completed) return
-
-    // Store the current state before updating
-    setLastCompletedMatch({...matchState})
-
-    // Update match state with completion time
-    setMatchStates(prev => 
-      prev.map(ms => 
-        ms.match.id === matchId 
-          ? { ...ms, completed: true, completedAt: Date.now() }
-          : ms
-      )
-    )
+    if (!isFollower) saveSession(state)
+  }, [state, isFollower]);
+
+  useEffect(() => {
+    if (!sync) return
+    const connection = createTransport(sync, setSyncStatus)
+    transport.current = connection
 
-    // Add to all completed matches
-    const updatedCompletedMatches = [...allCompletedMatches, matchState.match]
-    setAllCompletedMatches(updatedCompletedMatches)
-
-    // Update player stats
-    setPlayerStats(prev => 
-      prev.map(stat => {
-        if (matchState.match.players.some(p => p.id === stat.player.id)) {
-          const isDoublesMatch = matchState.match.players.length === 4
-          return {
-            ...stat,
-            doublesMatchesPlayed: isDoublesMatch ? stat.doublesMatchesPlayed + 1 : stat.doublesMatchesPlayed,
-            singlesMatchesPlayed: !isDoublesMatch ? stat.singlesMatchesPlayed + 1 : stat.singlesMatchesPlayed
+    const handleMessage = (message: SyncMessage) => {
+      if (sync.role === 'host') {
+        if (message.type === 'hello') {
+          connection.send({ type: 'state', from: deviceId, state: stateRef.current })
+        } else if (message.type === 'propose') {
+          try {
+            const next = applyProposal(stateRef.current, message.baseLength, message.action)
+            stateRef.current = next
+            setState(next)
+          } catch (err) {
+            const reason = err instanceof Error ? err.message : 'The change could not be applied'
+            connection.send({ type: 'rejected', from: deviceId, to: message.from, reason })
+            // Bring the follower back in line with the host
+            connection.send({ type: 'state', from: deviceId, state: stateRef.current })
           }
         }
-        return stat
-      })
-    )
+      } else if (message.type === 'state') {
+        setState(message.state)
+      } else if (message.type === 'rejected' && message.to === deviceId) {
+        setError(message.reason)
+      }
+    }
+
+    const unsubscribe = connection.subscribe(handleMessage)
+    if (sync.role === 'follower') {
+      connection.send({ type: 'hello', from: deviceId })
+    }
+    return () => {
+      unsubscribe()
+      connection.close()
+      transport.current = null
+    }
+  }, [sync, deviceId]);
+
+  // The host sends every change to the devices following it
+  useEffect(() => {
+    if (sync?.role === 'host') {
+      transport.current?.send({ type: 'state', from: deviceId, state })
+    }
+  }, [state, sync, deviceId]);
+
+  // Tick once a second for the court timers
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, []);
+
+  // Alert once per match when its time is up
+  useEffect(() => {
+    const timeUp = matchStates.filter(ms => {
+      const remaining = getTimeRemaining(ms, session.gameLengthMinutes, now)
+      return remaining !== null && remaining <= 0 && !alertedMatchIds.current.has(ms.match.id)
+    })
+    if (timeUp.length > 0) {
+      timeUp.forEach(ms => alertedMatchIds.current.add(ms.match.id))
+      playTimeUpAlert()
+    }
+  }, [matchStates, session.gameLengthMinutes, now]);
+
+  // Run an engine action against the current state, surfacing generator
+  // errors (e.g. not enough players) instead of crashing the page. A
+  // follower shows the change straight away and asks the host to apply it;
+  // the host's reply replaces it.
+  const applyAction = (action: (engine: SessionEngine) => SessionState): boolean => {
+    try {
+      const next = action(createSessionEngine(state))
+      const proposed = next.actions[state.actions.length]
+      if (isFollower && proposed) {
+        transport.current?.send({ type: 'propose', from: deviceId, baseLength: state.actions.length, action: proposed })
+      }
+      setState(next)
+      setError(null)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+      return false
+    }
+  }
+
+  const handleMatchComplete = (matchId: string, result: MatchResult) => {
+    applyAction(engine => engine.recordCompletion(matchId, result))
+    setScoringMatchId(null)
   }
 
   const handleRoundComplete = (isRandomRefresh: boolean = false) => {
     if (isRandomRefresh) {
-      // For refresh, generate new matches for the current round
-      const currentRoundMatches = matchStates.filter(ms => ms.round === currentRound);
-      const nextRoundMatches = generateNextRound(
-        session.numberOfCourts,
-        allCompletedMatches,
-        true
-      );
-
-      // Remove current round matches from session and match states
-      setSession(prev => ({
-        ...prev,
-        matches: prev.matches.filter(match => 
-          !currentRoundMatches.some(ms => ms.match.id === match.id)
-        )
-      }));
-
-      setMatchStates(prev => 
-        prev.filter(ms => ms.round !== currentRound)
-      );
-
-      // Add new matches for current round
-      setSession(prev => ({
-        ...prev,
-        matches: [...prev.matches, ...nextRoundMatches]
-      }));
-
-      // Create new match states for the current round
-      const newMatchStates = nextRoundMatches.map(match => ({
-        match,
-        completed: false,
-        round: currentRound
-      }));
-
-      // Add new match states
-      setMatchStates(prev => [...prev, ...newMatchStates]);
+      // For refresh, redraw the matches still to be played this round
+      applyAction(engine => engine.refreshRound())
     } else {
-      // For starting next round, check if all matches are completed
-      const currentRoundMatches = matchStates.filter(ms => ms.round === currentRound);
-      const allMatchesCompleted = currentRoundMatches.every(ms => ms.completed);
-      
-      if (!allMatchesCompleted) {
-        return; // Don't proceed if not all matches are completed
-      }
+      applyAction(engine => engine.nextRound())
+    }
+  }
+
+  const handleStartMatch = (matchId: string) => {
+    applyAction(engine => engine.startMatch(matchId))
+  }
 
-      // Generate next round of matches
-      const nextRoundMatches = generateNextRound(
-        session.numberOfCourts,
-        allCompletedMatches,
-        false
-      );
-
-      // Update session with new matches
-      setSession(prev => ({
-        ...prev,
-        matches: [...prev.matches, ...nextRoundMatches]
-      }));
-
-      // Create new match states for the next round
-      const newMatchStates = nextRoundMatches.map(match => ({
-        match,
-        completed: false,
-        round: currentRound + 1
-      }));
-
-      // Add new match states
-      setMatchStates(prev => [...prev, ...newMatchStates]);
-      
-      // Increment current round
-      setCurrentRound(prev => prev + 1);
+  // The first tap picks a player, the second swaps them with the first
+  const handleSelectPlayer = (playerId: string) => {
+    if (selectedPlayerId === null) {
+      setSelectedPlayerId(playerId)
+      return
     }
+    if (selectedPlayerId !== playerId) {
+      applyAction(engine => engine.swapPlayers(selectedPlayerId, playerId))
+    }
+    setSelectedPlayerId(null)
   }
 
   const handleUndo = () => {
-    if (!lastCompletedMatch) return
-
-    // Get the match ID to undo
-    const matchIdToUndo = lastCompletedMatch.match.id
-    
-    // Remove from all completed matches
-    setAllCompletedMatches(prev => 
-      prev.filter(m => m.id !== matchIdToUndo)
-    )
+    applyAction(engine => engine.undo())
+  }
 
-    // Revert match state
-    setMatchStates(prev => 
-      prev.map(ms => 
-        ms.match.id === matchIdToUndo 
-          ? { ...ms, completed: false, completedAt: undefined }
-          : ms
-      )
-    )
+  const handleRedo = () => {
+    applyAction(engine => engine.redo())
+  }
 
-    // Revert player stats
-    setPlayerStats(prev => 
-      prev.map(stat => {
-        if (lastCompletedMatch.match.players.some(p => p.id === stat.player.id)) {
-          const isDoublesMatch = lastCompletedMatch.match.players.length === 4
-          return {
-            ...stat,
-            doublesMatchesPlayed: isDoublesMatch ? Math.max(0, stat.doublesMatchesPlayed - 1) : stat.doublesMatchesPlayed,
-            singlesMatchesPlayed: !isDoublesMatch ? Math.max(0, stat.singlesMatchesPlayed - 1) : stat.singlesMatchesPlayed
-          }
-        }
-        return stat
-      })
-    )
+  const handleRedraw = () => {
+    applyAction(engine => engine.redrawRound())
+  }
+
+  const handleExportJson = () => {
+    downloadFile(exportFileName('json'), exportSessionJson(state), 'application/json')
+  }
 
-    // Clear last completed match
-    setLastCompletedMatch(null)
+  const handleExportCsv = () => {
+    downloadFile(exportFileName('csv'), exportSessionCsv(state), 'text/csv')
+  }
+
+  const handleAddPlayer = (name: string) => applyAction(engine => engine.addPlayer(name))
+
+  const handleSetStatus = (playerId: string, status: PlayerStatus) => {
+    applyAction(engine => engine.setPlayerStatus(playerId, status))
   }
 
   // Group matches by round
@@ -218,6 +266,16 @@ export function MatchesPage({ initialSession }: MatchesPageProps) {
     return acc;
   }, {} as Record<number, MatchState[]>);
 
+  if (showFinalStandings) {
+    return (
+      <FinalStandings
+        format={session.format}
+        standings={standings}
+        onClose={() => setShowFinalStandings(false)}
+      />
+    )
+  }
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
@@ -228,7 +286,7 @@ export function MatchesPage({ initialSession }: MatchesPageProps) {
             <div className="flex justify-between items-center mb-4 bg-white sticky top-0 z-10 py-3 px-1 shadow-sm">
               <div className="flex items-center gap-4">
                 <button
-                  onClick={() => window.location.href = '/'}
+                  onClick={onBackToSetup}
                   className="text-sm text-[#FF385C] hover:text-[#E61E4D] flex items-center gap-2 bg-white px-3 py-1 rounded-lg border border-transparent hover:border-[#FF385C] transition-colors duration-200"
                 >
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
@@ -236,10 +294,27 @@ export function MatchesPage({ initialSession }: MatchesPageProps) {
                   </svg>
                   Back to Setup
                 </button>
-                <h2 className="text-2xl font-semibold text-[#222222]">Matches</h2>
+                <div>
+                  <h2 className="text-2xl font-semibold text-[#222222]">Matches</h2>
+                  <span className="text-xs text-gray-500">
+                    Seed: <span className="font-mono">{session.seed}</span>
+                    {' · Export '}
+                    <button onClick={handleExportJson} className="text-[#FF385C] hover:text-[#E61E4D]">JSON</button>
+                    {' / '}
+                    <button onClick={handleExportCsv} className="text-[#FF385C] hover:text-[#E61E4D]">CSV</button>
+                  </span>
+                  {roundsLeft !== null && (
+                    <span className="block text-xs text-gray-500">
+                      About {roundsLeft} more {isRolling
+                        ? `${roundsLeft === 1 ? 'match' : 'matches'} per court`
+                        : roundsLeft === 1 ? 'round' : 'rounds'} before the booking ends
+                      {averageDuration !== null && ` (${Math.round(averageDuration / 60000)} min per match)`}
+                    </span>
+                  )}
+                </div>
               </div>
               <div className="flex items-center gap-4">
-                {lastCompletedMatch && (
+                {undoStep && (
                   <button
                     onClick={handleUndo}
                     className="text-sm text-[#FF385C] hover:text-[#E61E4D] flex items-center gap-2 bg-white px-3 py-1 rounded-lg border border-transparent hover:border-[#FF385C] transition-colors duration-200"
@@ -247,20 +322,103 @@ export function MatchesPage({ initialSession }: MatchesPageProps) {
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
                       <path fillRule="evenodd" d="M9.707 16.707a1 1 0 01-1.414 0l-6-6a1 1 0 010-1.414l6-6a1 1 0 011.414 1.414L5.414 9H17a1 1 0 110 2H5.414l4.293 4.293a1 1 0 010 1.414z" clipRule="evenodd" />
                     </svg>
-                    Undo Last Match
+                    Undo {STEP_LABELS[undoStep.type]}
+                  </button>
+                )}
+                {redoStep && (
+                  <button
+                    onClick={handleRedo}
+                    className="text-sm text-[#FF385C] hover:text-[#E61E4D] flex items-center gap-2 bg-white px-3 py-1 rounded-lg border border-transparent hover:border-[#FF385C] transition-colors duration-200"
+                  >
+                    Redo {STEP_LABELS[redoStep.type]}
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M10.293 3.293a1 1 0 011.414 0l6 6a1 1 0 010 1.414l-6 6a1 1 0 01-1.414-1.414L14.586 11H3a1 1 0 110-2h11.586l-4.293-4.293a1 1 0 010-1.414z" clipRule="evenodd" />
+                    </svg>
                   </button>
                 )}
               </div>
             </div>
 
+            {error && (
+              <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
+                {error}
+              </div>
+            )}
+
+            {selectedPlayer && (
+              <div className="mb-4 p-3 bg-[#FFF8F6] text-[#222222] rounded-lg border border-[#FF385C] flex justify-between items-center gap-4">
+                <span className="text-sm">
+                  Tap another player in a match{benchLabel} to swap them with {selectedPlayer.name}.
+                </span>
+                <button
+                  onClick={() => setSelectedPlayerId(null)}
+                  className="text-sm text-[#FF385C] hover:text-[#E61E4D] whitespace-nowrap"
+                >
+                  Cancel
+                </button>
+              </div>
+            )}
+
+            {(blockedMatches.length > 0 || canFillIdleCourt) && (
+              <div className="mb-4 p-3 bg-[#FFF8F6] text-[#222222] rounded-lg border border-[#FF385C] flex justify-between items-center gap-4">
+                <span className="text-sm">
+                  {blockedMatches.length > 0
+                    ? `${blockedMatches.length === 1 ? 'A match' : `${blockedMatches.length} matches`} still to play include${blockedMatches.length === 1 ? 's' : ''} a player who is no longer available.`
+                    : 'There are enough players waiting to use another court.'}
+                </span>
+                <button
+                  onClick={handleRedraw}
+                  className="shrink-0 text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
+                >
+                  {isRolling ? 'Fill Courts' : 'Redraw Pending Matches'}
+                </button>
+              </div>
+            )}
+
+            {isRolling && (
+              <>
+                <p className="mb-4 text-sm text-gray-600">
+                  Waiting:{' '}
+                  {waitingPlayers.length > 0 ? waitingPlayers.map(player => player.name).join(', ') : 'nobody'}
+                </p>
+                {/* Render each court's matches in the order they were played */}
+                {courts.map(court => (
+                  <div key={court} className="mb-8">
+                    <h3 className="text-xl font-semibold mb-4 text-[#222222]">Court {court}</h3>
+                    <div className="space-y-4">
+                      {matchStates
+                        .filter(ms => ms.match.court === court)
+                        .map((matchState, index) => (
+                          <MatchCard
+                            key={`match-${matchState.match.id}-${matchState.completed ? 'completed' : 'pending'}`}
+                            matchState={matchState}
+                            session={session}
+                            label={`Match ${index + 1}`}
+                            now={now}
+                            selectedPlayerId={selectedPlayerId}
+                            onSelectPlayer={handleSelectPlayer}
+                            onStart={() => handleStartMatch(matchState.match.id)}
+                            onScore={() => setScoringMatchId(matchState.match.id)}
+                          />
+                        ))}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+
+            {tournament && (
+              <TournamentBracket tournament={tournament} players={session.players} matchStates={matchStates} />
+            )}
+
             {/* Render matches grouped by round */}
-            {Object.entries(matchesByRound).map(([round, roundMatches]) => (
+            {!isRolling && Object.entries(matchesByRound).map(([round, roundMatches]) => (
               <div key={round} className="mb-8">
                 <div className="flex justify-between items-center mb-4">
                   <h3 className="text-xl font-semibold text-[#222222]">Round {round}</h3>
                   {parseInt(round) === currentRound && (
                     <div className="flex gap-2">
-                      {!roundMatches.every(ms => ms.completed) && (
+                      {session.format === 'freePlay' && !roundMatches.every(ms => ms.completed) && (
                         <button
                           onClick={() => handleRoundComplete(true)}
                           className="text-sm bg-white text-[#FF385C] px-4 py-2 rounded-lg border border-[#FF385C] hover:bg-[#FFF8F6] transition-colors duration-200"
@@ -268,114 +426,88 @@ export function MatchesPage({ initialSession }: MatchesPageProps) {
                           Refresh Round
                         </button>
                       )}
-                      {roundMatches.every(ms => ms.completed) && (
+                      {/* A finished tournament shows its champions in the bracket */}
+                      {roundMatches.every(ms => ms.completed) && !(finalRound && tournament) && (
                         <button
-                          onClick={() => handleRoundComplete(false)}
+                          onClick={() => (finalRound ? setShowFinalStandings(true) : handleRoundComplete(false))}
                           className="text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
                         >
-                          Start Next Round
+                          {finalRound ? 'Final Standings' : 'Start Next Round'}
                         </button>
                       )}
                     </div>
                   )}
                 </div>
-                
+
+                {getBench(state.benches, parseInt(round)).length > 0 && (
+                  <p className="mb-4 text-sm text-gray-600">
+                    Sitting out:{' '}
+                    {getBench(state.benches, parseInt(round))
+                      .map(id => session.players.find(player => player.id === id)?.name)
+                      .filter(Boolean)
+                      .join(', ')}
+                  </p>
+                )}
+
                 <div className="space-y-4">
                   {roundMatches.map((matchState, index) => (
-                    <div
+                    <MatchCard
                       key={`match-${matchState.match.id}-${matchState.completed ? 'completed' : 'pending'}`}
-                      className={`p-4 rounded-lg border ${
-                        matchState.completed
-                          ? 'bg-gray-100 border-gray-300'
-                          : 'bg-white border-gray-200'
-                      }`}
-                    >
-                      <div className="flex justify-between items-center mb-2">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium text-[#222222]">Court {matchState.match.court}</span>
-                          <span className="text-sm text-gray-500">•</span>
-                          <span className="font-medium text-[#222222]">Match {index + 1}</span>
-                        </div>
-                        <span className="text-sm text-gray-600">
-                          {matchState.match.side === 'left' ? 'Left Side' : 'Right Side'}
-                        </span>
-                      </div>
-                      <div className="flex justify-between items-center">
-                        <div className="flex flex-col">
-                          {matchState.match.players.slice(0, matchState.match.players.length / 2).map((player) => (
-                            <span key={player.id} className="text-[#222222]">{player.name}</span>
-                          ))}
-                        </div>
-                        <span className="text-gray-500">vs</span>
-                        <div className="flex flex-col">
-                          {matchState.match.players.slice(matchState.match.players.length / 2).map((player) => (
-                            <span key={player.id} className="text-[#222222]">{player.name}</span>
-                          ))}
-                        </div>
-                      </div>
-                      {!matchState.completed && (
-                        <div className="mt-2 flex justify-end">
-                          <button
-                            onClick={() => handleMatchComplete(matchState.match.id)}
-                            className="flex items-center space-x-2 text-sm text-gray-600 hover:text-[#FF385C] transition-colors duration-200 bg-white border border-gray-200 rounded-lg px-3 py-1 hover:border-[#FF385C]"
-                          >
-                            <span>Complete Match</span>
-                          </button>
-                        </div>
-                      )}
-                      {matchState.completed && (
-                        <div className="mt-2 flex justify-end items-center gap-2">
-                          <svg 
-                            className="w-5 h-5 text-green-500 animate-fade-in" 
-                            fill="none" 
-                            stroke="currentColor" 
-                            viewBox="0 0 24 24"
-                          >
-                            <path 
-                              strokeLinecap="round" 
-                              strokeLinejoin="round" 
-                              strokeWidth={2} 
-                              d="M5 13l4 4L19 7" 
-                            />
-                          </svg>
-                          <span className="text-sm text-green-600 animate-fade-in">Completed</span>
-                        </div>
-                      )}
-                    </div>
+                      matchState={matchState}
+                      session={session}
+                      label={fixtureLabels?.get(matchState.match.fixtureId ?? '') ?? `Match ${index + 1}`}
+                      now={now}
+                      selectedPlayerId={selectedPlayerId}
+                      onSelectPlayer={tournament ? undefined : handleSelectPlayer}
+                      onStart={() => handleStartMatch(matchState.match.id)}
+                      onScore={() => setScoringMatchId(matchState.match.id)}
+                    />
                   ))}
                 </div>
               </div>
             ))}
           </div>
 
-          {/* Player Stats - Fixed on scroll */}
-          <div className="md:sticky md:top-6 self-start bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-            <h2 className="text-xl font-semibold mb-4 text-[#222222]">Player Stats</h2>
-            <div className="space-y-3">
-              {playerStats.map((stat) => (
-                <div
-                  key={stat.player.id}
-                  className="flex flex-col p-3 bg-gray-50 rounded-lg"
-                >
-                  <span className="text-[#222222] font-medium">{stat.player.name}</span>
-                  <div className="flex justify-between mt-1 text-sm">
-                    <span className="text-gray-600">Doubles:</span>
-                    <span className="font-medium text-[#FF385C]">
-                      {stat.doublesMatchesPlayed} matches
-                    </span>
-                  </div>
-                  <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Singles:</span>
-                    <span className="font-medium text-[#FF385C]">
-                      {stat.singlesMatchesPlayed} matches
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
+          {/* Sidebar - Fixed on scroll */}
+          <div className="md:sticky md:top-6 self-start space-y-6">
+            <SyncPanel
+              sync={sync}
+              status={syncStatus}
+              onStart={setSync}
+              onStop={isFollower ? onBackToSetup : () => setSync(null)}
+            />
+            {scoresPoints && (
+              <StandingsPanel standings={standings} onShowFinal={() => setShowFinalStandings(true)} />
+            )}
+            {session.format === 'kingOfTheCourt' && <LadderPanel state={state} />}
+            {tournament && tournament.groupCount > 0 && (
+              <GroupTablesPanel tournament={tournament} players={session.players} matchStates={matchStates} />
+            )}
+            <SharePanel state={state} />
+            <RosterPanel session={session} onAddPlayer={handleAddPlayer} onSetStatus={handleSetStatus} />
+            {!tournament && (
+              <BenchPanel
+                state={state}
+                selectedPlayerId={selectedPlayerId}
+                onSelectPlayer={handleSelectPlayer}
+              />
+            )}
+            <PlayerStatsPanel playerStats={playerStats} ratings={ratings} />
           </div>
         </div>
       </div>
+
+      {scoringMatch && (
+        <ScoreDialog
+          match={scoringMatch.match}
+          initialResult={scoringMatch.result}
+          scoresPoints={scoresPoints}
+          pointsPerMatch={session.pointsPerMatch}
+          allowWinnerOnly={session.format === 'kingOfTheCourt'}
+          onSave={(result) => handleMatchComplete(scoringMatch.match.id, result)}
+          onCancel={() => setScoringMatchId(null)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
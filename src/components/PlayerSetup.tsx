@@ -1,16 +1,143 @@
 import { useState } from 'react'
-import { Player, Session } from '../types'
-import { generateSession } from '../utils/matchGenerator'
+import { Link } from 'react-router-dom'
+import {
+  ClubMember,
+  ClubRoster,
+  LeftoverFormat,
+  MixedFallback,
+  PairingRule,
+  PairingRuleType,
+  PairingWeights,
+  Player,
+  PlayerCategory,
+  ScheduleMode,
+  SessionFormat,
+  SessionState,
+  TeamMode,
+  TimerStart,
+  TournamentTeam,
+} from '../types'
+import {
+  DEFAULT_LEFTOVER_FORMAT,
+  DEFAULT_MIXED_FALLBACK,
+  DEFAULT_PAIRING_WEIGHTS,
+  DEFAULT_TEAM_MODE,
+} from '../utils/matchGenerator'
+import {
+  CATEGORY_LABELS,
+  findMemberByName,
+  getLastSessionMembers,
+  memberToPlayer,
+  recordAttendance,
+  searchMembers,
+  SKILL_LEVEL_LABELS,
+  sortByAttendance,
+} from '../utils/clubRoster'
+import { describePairingRule, PAIRING_RULE_LABELS } from '../utils/pairingRules'
+import { loadRoster, saveRoster } from '../utils/persistence'
+import { SessionOptions, startDrawnMatches, startSession } from '../utils/sessionEngine'
+import { importSessionJson } from '../utils/sessionExport'
+import { planSessionInBackground } from '../utils/backgroundPlanner'
+import { MAX_PLANNED_ROUNDS, SessionPlan } from '../utils/sessionPlanner'
+import { DEFAULT_POINTS_PER_MATCH, scoresIndividualPoints, SESSION_FORMAT_LABELS } from '../utils/socialFormats'
+import { minutesToMs, roundsInBooking } from '../utils/timing'
+import { DEFAULT_QUALIFIERS_PER_GROUP, getTeamName } from '../utils/tournament'
 import { Header } from './Header'
+import { SessionPlanView } from './SessionPlanView'
 
 interface PlayerSetupProps {
-  onSessionGenerated: (session: Session) => void;
+  onSessionGenerated: (state: SessionState) => void;
 }
 
+const PAIRING_WEIGHT_LABELS: Record<keyof PairingWeights, string> = {
+  partnerRepeat: 'Avoid repeat partners',
+  opponentRepeat: 'Avoid repeat opponents',
+  recency: 'Avoid recent repeats',
+}
+
+const LEFTOVER_FORMAT_LABELS: Record<LeftoverFormat, string> = {
+  singles: 'Singles',
+  twoVsOne: '2 vs 1',
+  sitOut: 'Sit out',
+}
+
+const TEAM_MODE_LABELS: Record<TeamMode, string> = {
+  balanced: 'Balanced',
+  random: 'Random',
+  groupedByLevel: 'By level',
+}
+
+const TEAM_MODE_DESCRIPTIONS: Record<TeamMode, string> = {
+  balanced: 'Even out the combined level of the two teams on each court',
+  random: 'Ignore skill levels',
+  groupedByLevel: 'Strongest players on court 1, developing players on court 2',
+}
+
+const SESSION_FORMAT_DESCRIPTIONS: Record<SessionFormat, string> = {
+  freePlay: 'Draw the best mix of partners and opponents every round',
+  americano: 'Everyone partners everyone in turn and scores their own points',
+  mexicano: 'After each round, 1st and 3rd play 2nd and 4th on every court by points',
+  kingOfTheCourt: 'Winners move up a court and losers down, with new partners every round',
+  tournament: 'Fixed teams play a group stage, then a knockout bracket',
+}
+
+const SCHEDULE_MODE_LABELS: Record<ScheduleMode, string> = {
+  rounds: 'Rounds',
+  rolling: 'Rolling',
+}
+
+const SCHEDULE_MODE_DESCRIPTIONS: Record<ScheduleMode, string> = {
+  rounds: 'Start the next round once every court has finished',
+  rolling: 'Put the next match on a court as soon as it finishes',
+}
+
+const TIMER_START_LABELS: Record<TimerStart, string> = {
+  onTap: 'When tapped',
+  onDraw: 'When drawn',
+}
+
+const MIXED_FALLBACK_LABELS: Record<MixedFallback, string> = {
+  levelDoubles: 'Play level doubles',
+  sitOut: 'Sit out more often',
+}
+
+const MAX_COURTS = 2
+
 export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
   const [players, setPlayers] = useState<Player[]>([])
   const [newPlayerName, setNewPlayerName] = useState('')
+  const [roster] = useState<ClubRoster>(() => loadRoster())
+  const [memberQuery, setMemberQuery] = useState('')
   const [numberOfCourts, setNumberOfCourts] = useState(1)
+  const [seed, setSeed] = useState('')
+  const [pairingWeights, setPairingWeights] = useState<PairingWeights>(DEFAULT_PAIRING_WEIGHTS)
+  const [leftoverFormats, setLeftoverFormats] = useState<LeftoverFormat[]>(
+    Array.from({ length: MAX_COURTS }, () => DEFAULT_LEFTOVER_FORMAT)
+  )
+  const [teamMode, setTeamMode] = useState<TeamMode>(DEFAULT_TEAM_MODE)
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>('rounds')
+  const [format, setFormat] = useState<SessionFormat>('freePlay')
+  const [pointsPerMatch, setPointsPerMatch] = useState(String(DEFAULT_POINTS_PER_MATCH))
+  const [americanoRounds, setAmericanoRounds] = useState('')
+  const [tournamentTeams, setTournamentTeams] = useState<TournamentTeam[]>([])
+  // The first player picked for a new team
+  const [teamPick, setTeamPick] = useState<string | null>(null)
+  const [groupCount, setGroupCount] = useState('')
+  const [qualifiersPerGroup, setQualifiersPerGroup] = useState(String(DEFAULT_QUALIFIERS_PER_GROUP))
+  const [gameLength, setGameLength] = useState('')
+  const [timerStart, setTimerStart] = useState<TimerStart>('onTap')
+  const [bookingLength, setBookingLength] = useState('')
+  const [planRounds, setPlanRounds] = useState('')
+  const [plan, setPlan] = useState<SessionPlan | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [mixedDoubles, setMixedDoubles] = useState(false)
+  const [mixedFallback, setMixedFallback] = useState<MixedFallback>(DEFAULT_MIXED_FALLBACK)
+  const [pairingRules, setPairingRules] = useState<PairingRule[]>([])
+  const [newRule, setNewRule] = useState<{ type: PairingRuleType; playerA: string; playerB: string }>({
+    type: 'mustPartner',
+    playerA: '',
+    playerB: '',
+  })
   const [error, setError] = useState<string | null>(null)
 
   const showTemporaryError = (message: string) => {
@@ -27,7 +154,9 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
         showTemporaryError(`${trimmedName} is already in the list`);
         return;
       }
-      const newPlayer: Player = {
+      // A name already on the club roster brings the member's details along
+      const member = findMemberByName(roster, trimmedName)
+      const newPlayer: Player = member ? memberToPlayer(member) : {
         id: crypto.randomUUID(),
         name: trimmedName
       }
@@ -37,39 +166,228 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
     }
   }
 
-  const addPlayerByName = (name: string) => {
-    if (players.some(player => player.name.toLowerCase() === name.toLowerCase())) {
-      showTemporaryError(`${name} is already in the list`);
+  const isAdded = (member: ClubMember) =>
+    players.some(player => player.id === member.id || player.name.toLowerCase() === member.name.toLowerCase())
+
+  const addMember = (member: ClubMember) => {
+    if (isAdded(member)) {
+      showTemporaryError(`${member.name} is already in the list`);
       return;
     }
-    const newPlayer: Player = {
-      id: crypto.randomUUID(),
-      name
-    }
-    setPlayers([...players, newPlayer])
+    setPlayers([...players, memberToPlayer(member)])
     setError(null)
   }
 
+  const addLastSession = () => {
+    const missing = getLastSessionMembers(roster).filter(member => !isAdded(member))
+    setPlayers([...players, ...missing.map(memberToPlayer)])
+    setError(null)
+  }
+
+  const setPlayerLevel = (playerId: string, level: number | undefined) => {
+    setPlayers(players.map(player => (player.id === playerId ? { ...player, level } : player)))
+  }
+
+  const setPlayerCategory = (playerId: string, category: PlayerCategory | undefined) => {
+    setPlayers(players.map(player => (player.id === playerId ? { ...player, category } : player)))
+  }
+
   const removePlayer = (playerId: string) => {
     setPlayers(players.filter(player => player.id !== playerId))
+    setPairingRules(pairingRules.filter(rule => !rule.playerIds.includes(playerId)))
+    setTournamentTeams(tournamentTeams.filter(team => !team.playerIds.includes(playerId)))
+    if (teamPick === playerId) setTeamPick(null)
+    setError(null)
+  }
+
+  const addPairingRule = () => {
+    const { type, playerA, playerB } = newRule
+    if (!playerA || !playerB || playerA === playerB) {
+      showTemporaryError('Pick two different players for the rule');
+      return;
+    }
+    setPairingRules([...pairingRules, { id: crypto.randomUUID(), type, playerIds: [playerA, playerB] }])
+    setNewRule({ ...newRule, playerA: '', playerB: '' })
     setError(null)
   }
 
-  const generateMatches = () => {
+  const removePairingRule = (ruleId: string) => {
+    setPairingRules(pairingRules.filter(rule => rule.id !== ruleId))
+  }
+
+  const unpairedPlayers = players.filter(player => !tournamentTeams.some(team => team.playerIds.includes(player.id)))
+
+  // The first tap picks a player, the second pairs them into a team
+  const pickTeamPlayer = (playerId: string) => {
+    if (teamPick === null) {
+      setTeamPick(playerId)
+      return
+    }
+    if (teamPick !== playerId) {
+      setTournamentTeams([...tournamentTeams, { id: crypto.randomUUID(), playerIds: [teamPick, playerId] }])
+    }
+    setTeamPick(null)
+  }
+
+  const pairRemainingInOrder = () => {
+    const pairs = Array.from({ length: Math.floor(unpairedPlayers.length / 2) }, (_, i): TournamentTeam => ({
+      id: crypto.randomUUID(),
+      playerIds: [unpairedPlayers[i * 2].id, unpairedPlayers[i * 2 + 1].id],
+    }))
+    setTournamentTeams([...tournamentTeams, ...pairs])
+    setTeamPick(null)
+  }
+
+  // Teams are seeded in list order, so moving one changes its seed
+  const moveTeam = (index: number, offset: number) => {
+    const teams = [...tournamentTeams]
+    const [team] = teams.splice(index, 1)
+    teams.splice(index + offset, 0, team)
+    setTournamentTeams(teams)
+  }
+
+  const removeTeam = (teamId: string) => {
+    setTournamentTeams(tournamentTeams.filter(team => team.id !== teamId))
+  }
+
+  const scoresPoints = scoresIndividualPoints(format)
+  const isFreePlay = format === 'freePlay'
+  const isTournament = format === 'tournament'
+  // Groups of about four teams
+  const defaultGroupCount = Math.floor(tournamentTeams.length / 4)
+  // Partnering everyone once takes one round less than there are players,
+  // or a round each when the number is odd and everyone sits out once
+  const roundRobinRounds = players.length % 2 === 0 ? players.length - 1 : players.length
+  const defaultAmericanoRounds = Math.min(Math.max(roundRobinRounds, 1), MAX_PLANNED_ROUNDS)
+
+  // Session options from the form; throws if a length isn't a number
+  const getSessionOptions = (): SessionOptions => {
+    const gameLengthMinutes = gameLength.trim() ? Number(gameLength) : null
+    const bookingMinutes = bookingLength.trim() ? Number(bookingLength) : null
+    if ([gameLengthMinutes, bookingMinutes].some(minutes => minutes !== null && !(minutes > 0))) {
+      throw new Error('Game and booking lengths must be a number of minutes')
+    }
+    const points = pointsPerMatch.trim() ? Number(pointsPerMatch) : null
+    if (scoresPoints && points !== null && !(Number.isInteger(points) && points > 0)) {
+      throw new Error('Points per match must be a whole number, or empty for matches against the clock')
+    }
+    return {
+      seed: seed.trim() || undefined,
+      pairingWeights,
+      // The other formats are doubles only, so players left over sit out
+      leftoverFormats: isFreePlay
+        ? leftoverFormats.slice(0, numberOfCourts)
+        : leftoverFormats.slice(0, numberOfCourts).map(() => 'sitOut'),
+      teamMode,
+      scheduleMode,
+      gameLengthMinutes,
+      timerStart,
+      bookingEndsAt: bookingMinutes !== null ? Date.now() + minutesToMs(bookingMinutes) : null,
+      mixedDoubles,
+      mixedFallback,
+      pairingRules,
+      format,
+      pointsPerMatch: points,
+      tournament: isTournament
+        ? {
+          teams: tournamentTeams,
+          groupCount: groupCount.trim() ? Number(groupCount) : defaultGroupCount,
+          qualifiersPerGroup: Number(qualifiersPerGroup),
+        }
+        : null,
+    }
+  }
+
+  const startWith = (sessionPlayers: Player[], courts: number, options: SessionOptions) => {
+    const state = startSession(sessionPlayers, courts, options)
+    saveRoster(recordAttendance(roster, sessionPlayers, Date.now()))
+    onSessionGenerated(startDrawnMatches(state))
+    setError(null)
+  }
+
+  const generateMatches = async () => {
+    setPlanning(true)
     try {
-      const session = generateSession(players, numberOfCourts)
-      onSessionGenerated(session)
-      setError(null)
+      const options = getSessionOptions()
+      // The Americano rotation is drawn in full before the first round
+      const plannedRounds = format === 'americano'
+        ? (await planSessionInBackground(
+          players,
+          numberOfCourts,
+          americanoRounds.trim() ? Number(americanoRounds) : defaultAmericanoRounds,
+          options
+        )).rounds.map(round => round.matches)
+        : undefined
+      startWith(players, numberOfCourts, { ...options, plannedRounds })
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to generate matches')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  // Without a number of rounds, plan as many as fit in the booking
+  const planWholeSession = async () => {
+    setPlanning(true)
+    try {
+      const options = getSessionOptions()
+      let rounds = Number(planRounds)
+      if (!planRounds.trim()) {
+        const gameLengthMinutes = options.gameLengthMinutes ?? null
+        if (!bookingLength.trim() || gameLengthMinutes === null) {
+          throw new Error('Enter the number of rounds to plan, or a game and booking length')
+        }
+        rounds = roundsInBooking(Number(bookingLength), gameLengthMinutes)
+      }
+      setPlan(await planSessionInBackground(players, numberOfCourts, rounds, options))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to plan the session')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  // Only free play in rounds can follow a plan: the other formats draw from
+  // standings or the ladder, and rolling courts don't finish in step
+  const canStartPlan = isFreePlay && scheduleMode === 'rounds'
+
+  // The plan is played round by round as printed, then rounds are drawn as
+  // usual if the session runs on
+  const startPlan = (startingPlan: SessionPlan) => {
+    try {
+      startWith(startingPlan.players, startingPlan.numberOfCourts, {
+        ...getSessionOptions(),
+        plannedRounds: startingPlan.rounds.map(round => round.matches),
+      })
+    } catch (err) {
+      setPlan(null)
+      setError(err instanceof Error ? err.message : 'Failed to start the plan')
     }
   }
 
-  // Common players
-  const commonPlayers = [
-    'Ray', 'Selin', 'Long', 'Aayush',
-    'Ankita', 'Rajat', 'Vivaan', 'Michael'
-  ];
+  const quickAddMembers = sortByAttendance(searchMembers(roster, memberQuery)).filter(member => !isAdded(member))
+  const lastSessionMissing = getLastSessionMembers(roster).filter(member => !isAdded(member))
+
+  const importSession = async (file: File) => {
+    try {
+      onSessionGenerated(importSessionJson(await file.text()))
+    } catch (err) {
+      setError(err instanceof Error ? `Couldn't import ${file.name}: ${err.message}` : 'Failed to import the session')
+    }
+  }
+
+  // The plan replaces the form until closed, so the setup is kept for a
+  // live session or another plan
+  if (plan) {
+    return (
+      <SessionPlanView
+        plan={plan}
+        onClose={() => setPlan(null)}
+        onStart={canStartPlan ? () => startPlan(plan) : undefined}
+      />
+    )
+  }
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -102,18 +420,50 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
 
           {/* Quick add player buttons */}
           <div className="mb-6">
-            <h3 className="text-sm font-medium text-gray-700 mb-2">Quick Add Players</h3>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-medium text-gray-700">Quick Add Players</h3>
+              <Link to="/roster" className="text-sm text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200">
+                Manage Club Roster
+              </Link>
+            </div>
+            {roster.members.length === 0 ? (
+              <p className="text-xs text-gray-500">
+                Players you add are saved to the club roster when the session starts, ready for next time.
+              </p>
+            ) : (
+              <div className="flex flex-col sm:flex-row gap-2 mb-2">
+                <input
+                  type="text"
+                  value={memberQuery}
+                  onChange={(e) => setMemberQuery(e.target.value)}
+                  placeholder="Search the roster"
+                  className="flex-1 px-3 py-1 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                />
+                <button
+                  onClick={addLastSession}
+                  disabled={lastSessionMissing.length === 0}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    lastSessionMissing.length === 0
+                      ? 'border-gray-200 text-gray-400 cursor-not-allowed'
+                      : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                  } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200 whitespace-nowrap`}
+                >
+                  Add Everyone From Last Session
+                </button>
+              </div>
+            )}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
-              {commonPlayers.filter(name => name).map((name) => (
+              {quickAddMembers.map((member) => (
                 <button
-                  key={name}
-                  onClick={() => addPlayerByName(name)}
+                  key={member.id}
+                  onClick={() => addMember(member)}
+                  title={member.notes}
                   className="px-4 py-2 bg-white border border-gray-300 text-[#222222] rounded-lg 
                             hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C] 
                             focus:outline-none focus:ring-2 focus:ring-[#FF385C] 
                             transition-all duration-200 transform hover:scale-105"
                 >
-                  {name}
+                  {member.name}
                 </button>
               ))}
             </div>
@@ -147,6 +497,412 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
             </div>
           </div>
 
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Format</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(SESSION_FORMAT_LABELS) as SessionFormat[]).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  className={`px-3 py-1 text-sm rounded-lg border ${
+                    format === option
+                      ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                      : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                  } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                >
+                  {SESSION_FORMAT_LABELS[option]}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">{SESSION_FORMAT_DESCRIPTIONS[format]}</p>
+            {scoresPoints && (
+              <div className="grid grid-cols-2 gap-2 mt-2">
+                <label className="text-sm text-gray-600">
+                  Points per match
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    value={pointsPerMatch}
+                    onChange={(e) => setPointsPerMatch(e.target.value)}
+                    placeholder="Against the clock"
+                    className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                  />
+                </label>
+                {format === 'americano' && (
+                  <label className="text-sm text-gray-600">
+                    Rounds
+                    <input
+                      type="number"
+                      inputMode="numeric"
+                      min={1}
+                      max={MAX_PLANNED_ROUNDS}
+                      value={americanoRounds}
+                      onChange={(e) => setAmericanoRounds(e.target.value)}
+                      placeholder={String(defaultAmericanoRounds)}
+                      className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                    />
+                  </label>
+                )}
+              </div>
+            )}
+          </div>
+
+          {isTournament && (
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Tournament Teams</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                Tap two players to pair them. Teams are seeded in the order listed, top seed first.
+              </p>
+              {unpairedPlayers.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {unpairedPlayers.map(player => (
+                    <button
+                      key={player.id}
+                      onClick={() => pickTeamPlayer(player.id)}
+                      className={`px-3 py-1 text-sm rounded-lg border ${
+                        teamPick === player.id
+                          ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                          : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                      } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                    >
+                      {player.name}
+                    </button>
+                  ))}
+                  {unpairedPlayers.length > 1 && (
+                    <button
+                      onClick={pairRemainingInOrder}
+                      className="px-3 py-1 text-sm bg-white border border-[#FF385C] text-[#FF385C] rounded-lg hover:bg-[#FFF8F6] transition-colors duration-200"
+                    >
+                      Pair the Rest in Order
+                    </button>
+                  )}
+                </div>
+              )}
+              {tournamentTeams.length > 0 && (
+                <ol className="space-y-1 mb-2">
+                  {tournamentTeams.map((team, index) => (
+                    <li key={team.id} className="flex items-center gap-2 text-sm text-[#222222]">
+                      <span className="w-6 text-gray-500">{index + 1}.</span>
+                      <span className="flex-1">{getTeamName(team, players)}</span>
+                      <button
+                        onClick={() => moveTeam(index, -1)}
+                        disabled={index === 0}
+                        aria-label={`Seed ${getTeamName(team, players)} higher`}
+                        className="px-1 text-[#FF385C] hover:text-[#E61E4D] disabled:text-gray-300"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => moveTeam(index, 1)}
+                        disabled={index === tournamentTeams.length - 1}
+                        aria-label={`Seed ${getTeamName(team, players)} lower`}
+                        className="px-1 text-[#FF385C] hover:text-[#E61E4D] disabled:text-gray-300"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => removeTeam(team.id)}
+                        className="text-[#FF385C] hover:text-[#E61E4D]"
+                      >
+                        Split
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <label className="text-sm text-gray-600">
+                  Groups
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    value={groupCount}
+                    onChange={(e) => setGroupCount(e.target.value)}
+                    placeholder={String(defaultGroupCount)}
+                    className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                  />
+                </label>
+                <label className="text-sm text-gray-600">
+                  Through from each group
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={1}
+                    value={qualifiersPerGroup}
+                    onChange={(e) => setQualifiersPerGroup(e.target.value)}
+                    className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                  />
+                </label>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                With 0 groups every team goes straight into the knockout. The top seeds get a bye when the bracket isn't full.
+              </p>
+            </div>
+          )}
+
+          {isFreePlay && (
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Schedule</h3>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(SCHEDULE_MODE_LABELS) as ScheduleMode[]).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setScheduleMode(mode)}
+                    className={`px-3 py-1 text-sm rounded-lg border ${
+                      scheduleMode === mode
+                        ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                        : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                    } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                  >
+                    {SCHEDULE_MODE_LABELS[mode]}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{SCHEDULE_MODE_DESCRIPTIONS[scheduleMode]}</p>
+            </div>
+          )}
+
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Timing</h3>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+              <label className="text-sm text-gray-600">
+                Game length (minutes)
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={gameLength}
+                  onChange={(e) => setGameLength(e.target.value)}
+                  placeholder="Untimed"
+                  className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                Booking left (minutes)
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  value={bookingLength}
+                  onChange={(e) => setBookingLength(e.target.value)}
+                  placeholder="e.g. 90"
+                  className="mt-1 w-full px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                />
+              </label>
+            </div>
+            <div className="flex items-center gap-3">
+              <span className="w-32 text-sm text-gray-600">Start timers</span>
+              <div className="grid grid-cols-2 gap-2 flex-1">
+                {(Object.keys(TIMER_START_LABELS) as TimerStart[]).map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => setTimerStart(option)}
+                    className={`px-3 py-1 text-sm rounded-lg border ${
+                      timerStart === option
+                        ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                        : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                    } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                  >
+                    {TIMER_START_LABELS[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {isFreePlay && (
+            <div className="mb-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-1">Leftover Players</h3>
+              <p className="text-xs text-gray-500 mb-2">
+                When there aren't enough players left to fill a court with doubles
+              </p>
+              <div className="space-y-2">
+                {leftoverFormats.slice(0, numberOfCourts).map((format, index) => (
+                  <div key={index} className="flex items-center gap-3">
+                    <span className="w-20 text-sm text-gray-600">Court {index + 1}</span>
+                    <div className="grid grid-cols-3 gap-2 flex-1">
+                      {(Object.keys(LEFTOVER_FORMAT_LABELS) as LeftoverFormat[]).map((option) => (
+                        <button
+                          key={option}
+                          onClick={() => setLeftoverFormats(leftoverFormats.map((f, i) => (i === index ? option : f)))}
+                          className={`px-3 py-1 text-sm rounded-lg border ${
+                            format === option
+                              ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                              : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                          } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                        >
+                          {LEFTOVER_FORMAT_LABELS[option]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Tournament teams are fixed, so none of this shapes their matches */}
+          {!isTournament && (
+            <>
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Teams</h3>
+                <div className="grid grid-cols-3 gap-2">
+                  {(Object.keys(TEAM_MODE_LABELS) as TeamMode[]).map((mode) => (
+                    <button
+                      key={mode}
+                      onClick={() => setTeamMode(mode)}
+                      className={`px-3 py-1 text-sm rounded-lg border ${
+                        teamMode === mode
+                          ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                          : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                      } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                    >
+                      {TEAM_MODE_LABELS[mode]}
+                    </button>
+                  ))}
+                </div>
+                <p className="mt-1 text-xs text-gray-500">{TEAM_MODE_DESCRIPTIONS[teamMode]}</p>
+              </div>
+
+              <div className="mb-4">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mixedDoubles}
+                    onChange={(e) => setMixedDoubles(e.target.checked)}
+                    className="accent-[#FF385C]"
+                  />
+                  Mixed doubles
+                </label>
+                {mixedDoubles && (
+                  <div className="mt-2">
+                    <p className="text-xs text-gray-500 mb-2">
+                      Every team is one man and one woman when possible. When the numbers don't match, the extra players:
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {(Object.keys(MIXED_FALLBACK_LABELS) as MixedFallback[]).map((fallback) => (
+                        <button
+                          key={fallback}
+                          onClick={() => setMixedFallback(fallback)}
+                          className={`px-3 py-1 text-sm rounded-lg border ${
+                            mixedFallback === fallback
+                              ? 'bg-[#FF385C] text-white border-[#FF385C]'
+                              : 'bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C]'
+                          } focus:outline-none focus:ring-2 focus:ring-[#FF385C] transition-all duration-200`}
+                        >
+                          {MIXED_FALLBACK_LABELS[fallback]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-1">Pairing Rules</h3>
+                <p className="text-xs text-gray-500 mb-2">
+                  Kept whenever possible; a match that has to break one says so
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_1fr_auto] gap-2">
+                  <select
+                    value={newRule.playerA}
+                    onChange={(e) => setNewRule({ ...newRule, playerA: e.target.value })}
+                    aria-label="First player"
+                    className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+                  >
+                    <option value="">Player</option>
+                    {players.map(player => (
+                      <option key={player.id} value={player.id}>{player.name}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={newRule.type}
+                    onChange={(e) => setNewRule({ ...newRule, type: e.target.value as PairingRuleType })}
+                    aria-label="Rule"
+                    className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+                  >
+                    {(Object.keys(PAIRING_RULE_LABELS) as PairingRuleType[]).map(type => (
+                      <option key={type} value={type}>{PAIRING_RULE_LABELS[type]} with</option>
+                    ))}
+                  </select>
+                  <select
+                    value={newRule.playerB}
+                    onChange={(e) => setNewRule({ ...newRule, playerB: e.target.value })}
+                    aria-label="Second player"
+                    className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+                  >
+                    <option value="">Player</option>
+                    {players.filter(player => player.id !== newRule.playerA).map(player => (
+                      <option key={player.id} value={player.id}>{player.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={addPairingRule}
+                    className="px-3 py-1 text-sm bg-white border border-[#FF385C] text-[#FF385C] rounded-lg hover:bg-[#FFF8F6] transition-colors duration-200"
+                  >
+                    Add Rule
+                  </button>
+                </div>
+                {pairingRules.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {pairingRules.map(rule => (
+                      <li key={rule.id} className="flex justify-between items-center text-sm text-[#222222]">
+                        <span>{describePairingRule(rule, players)}</span>
+                        <button
+                          onClick={() => removePairingRule(rule.id)}
+                          className="text-[#FF385C] hover:text-[#E61E4D]"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-700 mb-2">Pairing Preferences</h3>
+                <div className="space-y-2">
+                  {(Object.keys(PAIRING_WEIGHT_LABELS) as (keyof PairingWeights)[]).map((key) => (
+                    <div key={key} className="flex items-center gap-3">
+                      <label htmlFor={`weight-${key}`} className="w-48 text-sm text-gray-600">
+                        {PAIRING_WEIGHT_LABELS[key]}
+                      </label>
+                      <input
+                        id={`weight-${key}`}
+                        type="range"
+                        min={0}
+                        max={10}
+                        value={pairingWeights[key]}
+                        onChange={(e) => setPairingWeights({ ...pairingWeights, [key]: Number(e.target.value) })}
+                        className="flex-1 accent-[#FF385C]"
+                      />
+                      <span className="w-6 text-right text-sm font-medium text-[#FF385C]">{pairingWeights[key]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Draw Seed (optional)
+            </label>
+            <input
+              type="text"
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              placeholder="Leave empty for a new draw"
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Use the seed shown on another device, with the same players in the same order, to get the same draw.
+            </p>
+          </div>
+
           <div className="space-y-2 mb-4">
             {players.map((player) => (
               <div
@@ -154,12 +910,38 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
                 className="flex items-center justify-between p-2 bg-gray-50 rounded-lg border border-gray-200"
               >
                 <span className="text-[#222222]">{player.name}</span>
-                <button
-                  onClick={() => removePlayer(player.id)}
-                  className="text-[#FF385C] hover:text-[#E61E4D]"
-                >
-                  Remove
-                </button>
+                <div className="flex items-center gap-3">
+                  {mixedDoubles && (
+                    <select
+                      value={player.category ?? ''}
+                      onChange={(e) => setPlayerCategory(player.id, (e.target.value || undefined) as PlayerCategory | undefined)}
+                      aria-label={`Category of ${player.name}`}
+                      className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+                    >
+                      <option value="">Not set</option>
+                      {(Object.keys(CATEGORY_LABELS) as PlayerCategory[]).map(category => (
+                        <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                  )}
+                  <select
+                    value={player.level ?? ''}
+                    onChange={(e) => setPlayerLevel(player.id, e.target.value ? Number(e.target.value) : undefined)}
+                    aria-label={`Skill level of ${player.name}`}
+                    className="px-2 py-1 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+                  >
+                    <option value="">Level not set</option>
+                    {Object.entries(SKILL_LEVEL_LABELS).map(([level, label]) => (
+                      <option key={level} value={level}>{label}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => removePlayer(player.id)}
+                    className="text-[#FF385C] hover:text-[#E61E4D]"
+                  >
+                    Remove
+                  </button>
+                </div>
               </div>
             ))}
             <div className="mt-4 p-3 bg-white border border-gray-200 rounded-lg">
@@ -172,15 +954,65 @@ export function PlayerSetup({ onSessionGenerated }: PlayerSetupProps) {
 
           <button
             onClick={generateMatches}
-            disabled={players.length < 4}
+            disabled={players.length < 4 || planning}
             className={`w-full px-4 py-2 rounded-lg text-white ${
-              players.length < 4
+              players.length < 4 || planning
                 ? 'bg-gray-400 cursor-not-allowed'
                 : 'bg-[#FF385C] hover:bg-[#E61E4D]'
             } focus:outline-none focus:ring-2 focus:ring-[#FF385C]`}
           >
-            Generate Matches
+            {planning ? 'Planning…' : 'Generate Matches'}
           </button>
+          {!isTournament && (
+            <>
+              <div className="mt-3 flex gap-2">
+                <input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  max={MAX_PLANNED_ROUNDS}
+                  value={planRounds}
+                  onChange={(e) => setPlanRounds(e.target.value)}
+                  placeholder="Rounds"
+                  aria-label="Rounds to plan"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+                />
+                <button
+                  onClick={planWholeSession}
+                  disabled={players.length < 4 || planning}
+                  className={`flex-1 px-4 py-2 rounded-lg border ${
+                    players.length < 4 || planning
+                      ? 'border-gray-300 text-gray-400 cursor-not-allowed'
+                      : 'bg-white border-[#FF385C] text-[#FF385C] hover:bg-[#FFF8F6]'
+                  } focus:outline-none focus:ring-2 focus:ring-[#FF385C]`}
+                >
+                  Plan Whole Session
+                </button>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Draws every round up front to print, or to play as planned in free play rounds. Leave rounds empty to fill the booking.
+              </p>
+            </>
+          )}
+          <label className="block mt-3 text-center text-sm text-[#FF385C] hover:text-[#E61E4D] cursor-pointer">
+            Import a Session From a JSON Export
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ''
+                if (file) importSession(file)
+              }}
+              className="hidden"
+            />
+          </label>
+          <Link
+            to="/join"
+            className="block mt-2 text-center text-sm text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+          >
+            Follow a Session on Another Device
+          </Link>
         </div>
       </div>
     </div>
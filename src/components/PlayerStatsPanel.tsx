@@ -0,0 +1,68 @@
+import { PlayerRating, PlayerStats } from '../types'
+
+interface PlayerStatsPanelProps {
+  playerStats: PlayerStats[];
+  ratings: Map<string, PlayerRating>;
+}
+
+export function PlayerStatsPanel({ playerStats, ratings }: PlayerStatsPanelProps) {
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-4 text-[#222222]">Player Stats</h2>
+      <div className="space-y-3">
+        {playerStats.map((stat) => {
+          const rating = ratings.get(stat.player.id)
+          const lastChange = rating?.history[rating.history.length - 1]?.change
+          return (
+            <div
+              key={stat.player.id}
+              className="flex flex-col p-3 bg-gray-50 rounded-lg"
+            >
+              <span className="text-[#222222] font-medium">{stat.player.name}</span>
+              <div className="flex justify-between mt-1 text-sm">
+                <span className="text-gray-600">Doubles:</span>
+                <span className="font-medium text-[#FF385C]">
+                  {stat.doublesMatchesPlayed} matches
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Singles:</span>
+                <span className="font-medium text-[#FF385C]">
+                  {stat.singlesMatchesPlayed} matches
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Won / Lost:</span>
+                <span className="font-medium text-[#FF385C]">
+                  {stat.wins} / {stat.losses}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Point Diff:</span>
+                <span className="font-medium text-[#FF385C]">
+                  {stat.pointDifferential > 0 ? `+${stat.pointDifferential}` : stat.pointDifferential}
+                </span>
+              </div>
+              {rating && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">
+                    Rating:
+                    {rating.provisional && <span className="ml-1 text-xs text-gray-400">(provisional)</span>}
+                  </span>
+                  <span className="font-medium text-[#FF385C]">
+                    {Math.round(rating.rating)}
+                    {lastChange !== undefined && (
+                      <span className="ml-1 text-xs text-gray-500">
+                        {lastChange >= 0 ? `+${Math.round(lastChange)}` : Math.round(lastChange)}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,65 @@
+import { PersistedSession } from '../utils/persistence'
+import { Header } from './Header'
+
+interface ResumePromptProps {
+  savedSession: PersistedSession;
+  onResume: () => void;
+  onStartNew: () => void;
+}
+
+export function ResumePrompt({ savedSession, onResume, onStartNew }: ResumePromptProps) {
+  const completedCount = savedSession.matchStates.filter(ms => ms.completed).length
+  const savedAt = new Date(savedSession.savedAt).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold mb-4 text-[#222222]">Resume Session?</h2>
+          <p className="text-gray-600 mb-4">
+            A session from {savedAt} is still in progress.
+          </p>
+
+          <div className="space-y-2 mb-6">
+            <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">Players</span>
+              <span className="font-medium text-[#FF385C]">{savedSession.session.players.length}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">Courts</span>
+              <span className="font-medium text-[#FF385C]">{savedSession.session.numberOfCourts}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">Current Round</span>
+              <span className="font-medium text-[#FF385C]">{savedSession.currentRound}</span>
+            </div>
+            <div className="flex justify-between p-3 bg-gray-50 rounded-lg">
+              <span className="text-gray-600">Completed Matches</span>
+              <span className="font-medium text-[#FF385C]">{completedCount}</span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <button
+              onClick={onStartNew}
+              className="px-4 py-2 rounded-lg border bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C] focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+            >
+              Start New Session
+            </button>
+            <button
+              onClick={onResume}
+              className="px-4 py-2 rounded-lg text-white bg-[#FF385C] hover:bg-[#E61E4D] focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+            >
+              Resume Session
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react'
+import { PlayerStatus, Session } from '../types'
+import { getPlayerStatus } from '../utils/sessionEngine'
+
+interface RosterPanelProps {
+  session: Session;
+  onAddPlayer: (name: string) => boolean;
+  onSetStatus: (playerId: string, status: PlayerStatus) => void;
+}
+
+const STATUS_LABELS: Record<PlayerStatus, string> = {
+  active: 'Playing',
+  onBreak: 'On break',
+  left: 'Left',
+}
+
+export function RosterPanel({ session, onAddPlayer, onSetStatus }: RosterPanelProps) {
+  const [newPlayerName, setNewPlayerName] = useState('')
+
+  const addPlayer = () => {
+    if (onAddPlayer(newPlayerName)) {
+      setNewPlayerName('')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-1 text-[#222222]">Players</h2>
+      <p className="text-sm text-gray-500 mb-4">Changes apply from the next draw</p>
+      <div className="flex gap-2 mb-4">
+        <input
+          type="text"
+          value={newPlayerName}
+          onChange={(e) => setNewPlayerName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addPlayer()}
+          placeholder="Late arrival"
+          className="flex-1 min-w-0 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+        />
+        <button
+          onClick={addPlayer}
+          className="text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
+        >
+          Add
+        </button>
+      </div>
+      <ul className="space-y-2">
+        {session.players.map(player => {
+          const status = getPlayerStatus(session, player.id)
+          return (
+            <li
+              key={player.id}
+              className={`flex justify-between items-center p-3 rounded-lg ${
+                status === 'active' ? 'bg-gray-50' : 'bg-gray-100 text-gray-400'
+              }`}
+            >
+              <span className={status === 'active' ? 'text-[#222222] font-medium' : 'font-medium'}>
+                {player.name}
+                {status !== 'active' && (
+                  <span className="ml-2 text-xs">{STATUS_LABELS[status]}</span>
+                )}
+              </span>
+              <span className="flex gap-3 text-sm">
+                {status === 'active' ? (
+                  <>
+                    <button
+                      onClick={() => onSetStatus(player.id, 'onBreak')}
+                      className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+                    >
+                      Break
+                    </button>
+                    <button
+                      onClick={() => onSetStatus(player.id, 'left')}
+                      className="text-gray-600 hover:text-[#FF385C] transition-colors duration-200"
+                    >
+                      Remove
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => onSetStatus(player.id, 'active')}
+                    className="text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+                  >
+                    {status === 'onBreak' ? 'Back' : 'Rejoin'}
+                  </button>
+                )}
+              </span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
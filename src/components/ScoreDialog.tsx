@@ -0,0 +1,181 @@
+import { useState } from 'react'
+import { Match, MatchResult, GameScore } from '../types'
+import { createMatchResult, createPointsResult, createWinnerResult, getTeams, MAX_GAMES } from '../utils/scoring'
+
+interface ScoreDialogProps {
+  match: Match;
+  initialResult?: MatchResult;
+  // Americano and Mexicano matches are one tally of points instead of games
+  scoresPoints?: boolean;
+  pointsPerMatch?: number | null;
+  // King of the court only needs to know who won
+  allowWinnerOnly?: boolean;
+  onSave: (result: MatchResult) => void;
+  onCancel: () => void;
+}
+
+interface GameInput {
+  team1: string;
+  team2: string;
+}
+
+export function ScoreDialog({
+  match,
+  initialResult,
+  scoresPoints = false,
+  pointsPerMatch = null,
+  allowWinnerOnly = false,
+  onSave,
+  onCancel,
+}: ScoreDialogProps) {
+  const [games, setGames] = useState<GameInput[]>(
+    initialResult && initialResult.games.length > 0
+      ? initialResult.games.map(game => ({ team1: String(game.team1), team2: String(game.team2) }))
+      : [{ team1: '', team2: '' }]
+  )
+  const [error, setError] = useState<string | null>(null)
+
+  const [team1, team2] = getTeams(match)
+  const team1Name = team1.map(player => player.name).join(' & ')
+  const team2Name = team2.map(player => player.name).join(' & ')
+
+  // With a points total, one side's points give the other's
+  const remainingPoints = (value: string): string | null => {
+    if (!scoresPoints || pointsPerMatch === null || value.trim() === '') return null
+    const points = Number(value)
+    return Number.isInteger(points) && points >= 0 && points <= pointsPerMatch ? String(pointsPerMatch - points) : null
+  }
+
+  const updateGame = (index: number, side: keyof GameInput, value: string) => {
+    const otherSide: keyof GameInput = side === 'team1' ? 'team2' : 'team1'
+    const otherPoints = remainingPoints(value)
+    setGames(prev => prev.map((game, i) => (
+      i === index ? { ...game, [side]: value, ...(otherPoints !== null && { [otherSide]: otherPoints }) } : game
+    )))
+    setError(null)
+  }
+
+  const addGame = () => {
+    if (games.length < MAX_GAMES) {
+      setGames([...games, { team1: '', team2: '' }])
+    }
+  }
+
+  const removeGame = (index: number) => {
+    setGames(games.filter((_, i) => i !== index))
+    setError(null)
+  }
+
+  const handleSave = () => {
+    try {
+      const scores: GameScore[] = games.map(game => ({
+        team1: game.team1.trim() === '' ? NaN : Number(game.team1),
+        team2: game.team2.trim() === '' ? NaN : Number(game.team2),
+      }))
+      onSave(scoresPoints ? createPointsResult(scores[0], pointsPerMatch) : createMatchResult(scores))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid score')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/40 p-4">
+      <div className="w-full max-w-md bg-white rounded-xl shadow-lg border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold mb-4 text-[#222222]">
+          Court {match.court} Result
+        </h3>
+
+        <div className="grid grid-cols-[auto_1fr_1fr_auto] gap-2 items-center mb-4">
+          <span />
+          <span className="text-sm font-medium text-gray-700 truncate">{team1Name}</span>
+          <span className="text-sm font-medium text-gray-700 truncate">{team2Name}</span>
+          <span />
+          {games.map((game, index) => (
+            <div key={index} className="contents">
+              <span className="text-sm text-gray-600">{scoresPoints ? 'Points' : `Game ${index + 1}`}</span>
+              <input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={scoresPoints ? pointsPerMatch ?? undefined : 30}
+                value={game.team1}
+                onChange={(e) => updateGame(index, 'team1', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+              />
+              <input
+                type="number"
+                inputMode="numeric"
+                min={0}
+                max={scoresPoints ? pointsPerMatch ?? undefined : 30}
+                value={game.team2}
+                onChange={(e) => updateGame(index, 'team2', e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+              />
+              {index > 0 ? (
+                <button
+                  onClick={() => removeGame(index)}
+                  className="text-sm text-[#FF385C] hover:text-[#E61E4D]"
+                >
+                  Remove
+                </button>
+              ) : (
+                <span />
+              )}
+            </div>
+          ))}
+        </div>
+
+        {scoresPoints && pointsPerMatch !== null && (
+          <p className="-mt-2 mb-4 text-xs text-gray-500">The points add up to {pointsPerMatch}</p>
+        )}
+
+        {!scoresPoints && games.length < MAX_GAMES && (
+          <button
+            onClick={addGame}
+            className="mb-4 text-sm text-[#FF385C] hover:text-[#E61E4D]"
+          >
+            + Add Game
+          </button>
+        )}
+
+        {allowWinnerOnly && (
+          <div className="mb-4 pt-3 border-t border-gray-200">
+            <p className="text-sm text-gray-600 mb-2">No score kept? Just pick the winners:</p>
+            <div className="grid grid-cols-2 gap-2">
+              {[team1Name, team2Name].map((name, index) => (
+                <button
+                  key={index}
+                  onClick={() => onSave(createWinnerResult(index === 0 ? 'team1' : 'team2'))}
+                  className="text-sm bg-white text-[#222222] px-3 py-2 rounded-lg border border-gray-300 hover:border-[#FF385C] hover:text-[#FF385C] transition-colors duration-200 truncate"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="text-sm bg-white text-gray-600 px-4 py-2 rounded-lg border border-gray-200 hover:border-[#FF385C] hover:text-[#FF385C] transition-colors duration-200"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
+          >
+            Save Result
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
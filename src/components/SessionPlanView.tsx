@@ -0,0 +1,156 @@
+import { Match } from '../types'
+import { getTeams } from '../utils/scoring'
+import { getPlanCoverage, SessionPlan } from '../utils/sessionPlanner'
+import { Header } from './Header'
+
+interface SessionPlanViewProps {
+  plan: SessionPlan;
+  onClose: () => void;
+  // Left out when the session can't follow a plan, so it can only be printed
+  onStart?: () => void;
+}
+
+function describeTeams(match: Match): string {
+  return getTeams(match).map(team => team.map(player => player.name).join(' & ')).join(' vs ')
+}
+
+function percentage(part: number, whole: number): string {
+  return whole > 0 ? `${Math.round((part / whole) * 100)}%` : '-'
+}
+
+export function SessionPlanView({ plan, onClose, onStart }: SessionPlanViewProps) {
+  const coverage = getPlanCoverage(plan)
+  const courts = Array.from({ length: plan.numberOfCourts }, (_, i) => i + 1)
+  const games = coverage.players.map(entry => entry.games)
+  const sitOuts = coverage.players.map(entry => entry.sitOuts)
+
+  return (
+    <div className="min-h-screen bg-gray-50 print:bg-white">
+      <div className="print:hidden">
+        <Header />
+      </div>
+      <div className="max-w-4xl mx-auto p-6 print:p-0 print:max-w-none">
+        <div className="flex justify-between items-center mb-4 print:hidden">
+          <button
+            onClick={onClose}
+            className="text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+          >
+            Back to Setup
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => window.print()}
+              className="px-4 py-2 border border-[#FF385C] text-[#FF385C] rounded-lg hover:bg-[#FFF8F6] focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+            >
+              Print Schedule
+            </button>
+            {onStart && (
+              <button
+                onClick={onStart}
+                className="px-4 py-2 bg-[#FF385C] text-white rounded-lg hover:bg-[#E61E4D] focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+              >
+                Start This Plan
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-6 print:hidden">
+          <h2 className="text-xl font-semibold mb-4 text-[#222222]">Coverage</h2>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">Partnerships</div>
+              <div className="text-lg font-semibold text-[#FF385C]">
+                {percentage(coverage.partnerships, coverage.possiblePartnerships)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {coverage.partnerships} of {coverage.possiblePartnerships} pairs
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">Opponents</div>
+              <div className="text-lg font-semibold text-[#FF385C]">
+                {percentage(coverage.opponentPairs, coverage.possibleOpponentPairs)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {coverage.opponentPairs} of {coverage.possibleOpponentPairs} pairs
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">Games each</div>
+              <div className="text-lg font-semibold text-[#FF385C]">
+                {Math.min(...games) === Math.max(...games) ? games[0] : `${Math.min(...games)}-${Math.max(...games)}`}
+              </div>
+            </div>
+            <div className="p-3 bg-gray-50 rounded-lg">
+              <div className="text-sm text-gray-600">Sit-outs each</div>
+              <div className="text-lg font-semibold text-[#FF385C]">
+                {Math.min(...sitOuts) === Math.max(...sitOuts) ? sitOuts[0] : `${Math.min(...sitOuts)}-${Math.max(...sitOuts)}`}
+              </div>
+            </div>
+          </div>
+          {coverage.maxPartnerRepeats > 1 && (
+            <p className="mb-4 text-sm text-gray-600">
+              Some pairs partner up to {coverage.maxPartnerRepeats} times.
+            </p>
+          )}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600">
+                  <th className="py-1 font-medium">Player</th>
+                  <th className="py-1 font-medium text-right">Games</th>
+                  <th className="py-1 font-medium text-right">Sit-outs</th>
+                  <th className="py-1 font-medium text-right">Partners</th>
+                </tr>
+              </thead>
+              <tbody>
+                {coverage.players.map(entry => (
+                  <tr key={entry.player.id} className="border-t border-gray-100 text-[#222222]">
+                    <td className="py-1">{entry.player.name}</td>
+                    <td className="py-1 text-right">{entry.games}</td>
+                    <td className="py-1 text-right">{entry.sitOuts}</td>
+                    <td className="py-1 text-right">{entry.partners} of {plan.players.length - 1}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 print:shadow-none print:border-0 print:p-0">
+          <h2 className="text-xl font-semibold mb-4 text-[#222222]">Schedule</h2>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="py-2 pr-3 font-medium">Round</th>
+                {courts.map(court => (
+                  <th key={court} className="py-2 pr-3 font-medium">Court {court}</th>
+                ))}
+                <th className="py-2 font-medium">Sitting out</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.rounds.map(round => (
+                <tr key={round.round} className="border-t border-gray-200 text-[#222222] break-inside-avoid">
+                  <td className="py-2 pr-3 font-medium">{round.round}</td>
+                  {courts.map(court => {
+                    const match = round.matches.find(m => m.court === court)
+                    return (
+                      <td key={court} className="py-2 pr-3">
+                        {match ? describeTeams(match) : <span className="text-gray-400">-</span>}
+                      </td>
+                    )
+                  })}
+                  <td className="py-2 text-gray-600">
+                    {round.sittingOut.map(player => player.name).join(', ')}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
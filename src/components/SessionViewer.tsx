@@ -0,0 +1,177 @@
+import { useEffect, useState } from 'react'
+import { useLocation } from 'react-router-dom'
+import { decodeSnapshot, ScheduleSnapshot, SnapshotMatch, SnapshotMatchStatus } from '../utils/shareLink'
+import { Header } from './Header'
+
+// A snapshot this old has probably missed a draw or two
+const STALE_AFTER_MS = 10 * 60 * 1000
+
+const STATUS_LABELS: Record<SnapshotMatchStatus, string> = {
+  waiting: 'Up next',
+  playing: 'Playing',
+  done: 'Finished',
+}
+
+function describeAge(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  return `${hours} h ${minutes % 60} min ago`
+}
+
+interface ViewerMatchProps {
+  match: SnapshotMatch;
+  players: string[];
+  highlight: number | null;
+}
+
+function ViewerMatch({ match, players, highlight }: ViewerMatchProps) {
+  const isHighlighted = highlight !== null && match.teams.some(team => team.includes(highlight))
+  return (
+    <div
+      className={`p-3 rounded-lg border ${
+        isHighlighted ? 'bg-[#FFF8F6] border-[#FF385C]' : 'bg-white border-gray-200'
+      } ${match.status === 'done' ? 'text-gray-400' : 'text-[#222222]'}`}
+    >
+      <div className="flex justify-between text-xs text-gray-500 mb-1">
+        <span>Court {match.court}</span>
+        <span>{STATUS_LABELS[match.status]}</span>
+      </div>
+      <div className="text-sm font-medium">
+        {match.teams.map((team, index) => (
+          <span key={index}>
+            {index > 0 && <span className="mx-2 text-gray-400">vs</span>}
+            <span className={match.winner === (index === 0 ? 'team1' : 'team2') ? 'text-[#FF385C]' : ''}>
+              {team.map(player => players[player]).join(' & ')}
+            </span>
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function SessionViewer() {
+  const { hash } = useLocation()
+  const [snapshot, setSnapshot] = useState<ScheduleSnapshot | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [highlight, setHighlight] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    let cancelled = false
+    const encoded = hash.slice(1)
+    if (!encoded) {
+      setError('This link has no schedule in it; ask for it to be shared again')
+      return
+    }
+    decodeSnapshot(encoded)
+      .then(decoded => {
+        if (cancelled) return
+        setSnapshot(decoded)
+        setError(null)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to read the link')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [hash])
+
+  // Keep the age of the snapshot up to date
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 15000)
+    return () => clearInterval(interval)
+  }, []);
+
+  const age = snapshot ? Math.max(0, now - snapshot.capturedAt) : 0
+  const isStale = age > STALE_AFTER_MS
+  const courts = snapshot ? Array.from({ length: snapshot.numberOfCourts }, (_, i) => i + 1) : []
+  const isRolling = snapshot?.scheduleMode === 'rolling'
+
+  // Rolling sessions show what's on and coming up per court; round-based
+  // ones show the current round first, then earlier rounds
+  const openMatches = snapshot?.matches.filter(match => match.status !== 'done') ?? []
+  const rounds = snapshot
+    ? Array.from({ length: snapshot.currentRound }, (_, i) => snapshot.currentRound - i)
+    : []
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header />
+      <div className="max-w-2xl mx-auto p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h2 className="text-xl font-semibold mb-1 text-[#222222]">Schedule</h2>
+          {error && (
+            <div className="mt-3 p-3 bg-red-50 text-red-700 rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+          {snapshot && (
+            <>
+              <p className="text-xs text-gray-500 mb-3">Read-only view shared by the organiser</p>
+              <div
+                className={`mb-4 p-3 text-sm rounded-lg border ${
+                  isStale ? 'bg-red-50 text-red-700 border-red-200' : 'bg-gray-50 text-gray-600 border-gray-200'
+                }`}
+              >
+                Updated {describeAge(age)}
+                {isStale && '. Courts have probably changed since; scan the organiser\'s QR code again for the latest draw.'}
+              </div>
+
+              <select
+                value={highlight ?? ''}
+                onChange={(e) => setHighlight(e.target.value ? Number(e.target.value) : null)}
+                aria-label="Find your matches"
+                className="w-full mb-4 px-3 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+              >
+                <option value="">Find your matches</option>
+                {snapshot.players.map((name, index) => (
+                  <option key={index} value={index}>{name}</option>
+                ))}
+              </select>
+
+              {isRolling ? (
+                <div className="space-y-4">
+                  {courts.map(court => (
+                    <div key={court}>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">Court {court}</h3>
+                      <div className="space-y-2">
+                        {openMatches.filter(match => match.court === court).map((match, index) => (
+                          <ViewerMatch key={index} match={match} players={snapshot.players} highlight={highlight} />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {rounds.map(round => (
+                    <div key={round}>
+                      <h3 className="text-sm font-medium text-gray-700 mb-2">
+                        Round {round}{round === snapshot.currentRound && ' (current)'}
+                      </h3>
+                      <div className="space-y-2">
+                        {snapshot.matches.filter(match => match.round === round).map((match, index) => (
+                          <ViewerMatch key={index} match={match} players={snapshot.players} highlight={highlight} />
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {snapshot.waiting.length > 0 && (
+                <p className="mt-4 text-sm text-gray-600">
+                  {isRolling ? 'Waiting' : 'Sitting out'}: {snapshot.waiting.map(player => snapshot.players[player]).join(', ')}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import QRCode from 'qrcode'
+import { SessionState } from '../types'
+import { createSnapshot, encodeSnapshot, getShareUrl } from '../utils/shareLink'
+
+interface SharePanelProps {
+  state: SessionState;
+}
+
+export function SharePanel({ state }: SharePanelProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [shareUrl, setShareUrl] = useState<string | null>(null)
+  const [qrCode, setQrCode] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  // Take a fresh snapshot whenever the panel is opened or the session
+  // changes while it is open
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+    const share = async () => {
+      try {
+        const url = getShareUrl(await encodeSnapshot(createSnapshot(state, Date.now())))
+        if (cancelled) return
+        setShareUrl(url)
+        setCopied(false)
+        setError(null)
+        try {
+          const image = await QRCode.toDataURL(url, { margin: 1, width: 240 })
+          if (!cancelled) setQrCode(image)
+        } catch {
+          // Very long sessions don't fit in a QR code; the link still works
+          if (!cancelled) {
+            setQrCode(null)
+            setError('The schedule is too long for a QR code; copy the link instead')
+          }
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to create the link')
+      }
+    }
+    share()
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, state])
+
+  const copyLink = async () => {
+    if (!shareUrl) return
+    try {
+      await navigator.clipboard.writeText(shareUrl)
+      setCopied(true)
+    } catch {
+      setError("Couldn't copy the link; long-press it to copy instead")
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-[#222222]">Share Schedule</h2>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="text-sm text-[#FF385C] hover:text-[#E61E4D] transition-colors duration-200"
+        >
+          {isOpen ? 'Hide' : 'Show QR Code'}
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-4">
+          <p className="text-sm text-gray-500 mb-3">
+            Scan to see the courts on your own phone. The link shows the schedule as it is now; scan again after the next draw.
+          </p>
+          {qrCode && (
+            <img src={qrCode} alt="QR code for the schedule link" className="mx-auto mb-3 w-48 h-48" />
+          )}
+          {error && (
+            <div className="mb-3 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+          {shareUrl && (
+            <>
+              <input
+                type="text"
+                readOnly
+                value={shareUrl}
+                onFocus={(e) => e.target.select()}
+                aria-label="Schedule link"
+                className="w-full px-3 py-1 mb-2 text-xs text-gray-600 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C]"
+              />
+              <button
+                onClick={copyLink}
+                className="w-full text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
+              >
+                {copied ? 'Copied' : 'Copy Link'}
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
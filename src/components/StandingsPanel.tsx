@@ -0,0 +1,32 @@
+import { getRanks, Standing } from '../utils/socialFormats'
+
+interface StandingsPanelProps {
+  standings: Standing[];
+  onShowFinal: () => void;
+}
+
+export function StandingsPanel({ standings, onShowFinal }: StandingsPanelProps) {
+  const ranks = getRanks(standings)
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-4 text-[#222222]">Leaderboard</h2>
+      <ol className="space-y-1 mb-4">
+        {standings.map((standing, index) => (
+          <li key={standing.player.id} className="flex items-center gap-2 text-sm">
+            <span className="w-6 text-gray-500">{ranks[index]}.</span>
+            <span className="flex-1 text-[#222222]">{standing.player.name}</span>
+            <span className="text-xs text-gray-500">{standing.played} played</span>
+            <span className="w-10 text-right font-medium text-[#FF385C]">{standing.points}</span>
+          </li>
+        ))}
+      </ol>
+      <button
+        onClick={onShowFinal}
+        className="w-full text-sm bg-white text-[#FF385C] px-4 py-2 rounded-lg border border-[#FF385C] hover:bg-[#FFF8F6] transition-colors duration-200"
+      >
+        Final Standings
+      </button>
+    </div>
+  )
+}
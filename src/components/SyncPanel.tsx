@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { createSeed } from '../utils/random'
+import { parseRelayUrl, SyncSettings, SyncStatus } from '../utils/sync'
+
+interface SyncPanelProps {
+  sync: SyncSettings | null;
+  status: SyncStatus;
+  onStart: (settings: SyncSettings) => void;
+  onStop: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  connecting: 'Connecting…',
+  connected: 'Connected',
+  disconnected: 'Not connected, retrying',
+}
+
+export function SyncPanel({ sync, status, onStart, onStop }: SyncPanelProps) {
+  const [relayUrl, setRelayUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const startSyncing = () => {
+    try {
+      // A fresh code rather than the seed, so two sessions drawn from the
+      // same seed don't end up in one room
+      onStart({ role: 'host', room: createSeed(), relayUrl: parseRelayUrl(relayUrl) })
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start syncing')
+    }
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h2 className="text-xl font-semibold mb-1 text-[#222222]">Live Sync</h2>
+      {sync ? (
+        <>
+          <p className="text-sm text-gray-500 mb-3">
+            {sync.role === 'host'
+              ? 'Other devices can follow this session and record results.'
+              : 'Following the session hosted on another device.'}
+          </p>
+          <div className="space-y-1 mb-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Session code</span>
+              <span className="font-mono text-[#222222]">{sync.room}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Via</span>
+              <span className="text-[#222222] truncate ml-2">{sync.relayUrl ?? 'Tabs in this browser'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Status</span>
+              <span className={status === 'connected' ? 'text-[#FF385C]' : 'text-gray-500'}>{STATUS_LABELS[status]}</span>
+            </div>
+          </div>
+          <button
+            onClick={onStop}
+            className="w-full text-sm px-4 py-2 rounded-lg border bg-white border-gray-300 text-[#222222] hover:bg-[#FFF8F6] hover:border-[#FF385C] hover:text-[#FF385C] transition-colors duration-200"
+          >
+            {sync.role === 'host' ? 'Stop Syncing' : 'Stop Following'}
+          </button>
+        </>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-3">
+            Show this session on another tab or device. Leave the relay empty to sync tabs in this browser.
+          </p>
+          <input
+            type="text"
+            value={relayUrl}
+            onChange={(e) => setRelayUrl(e.target.value)}
+            placeholder="Relay, e.g. ws://192.168.1.20:8787"
+            aria-label="Relay address"
+            className="w-full px-3 py-2 mb-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF385C] focus:border-transparent"
+          />
+          {error && (
+            <div className="mb-2 p-3 bg-red-50 text-red-700 text-sm rounded-lg border border-red-200">
+              {error}
+            </div>
+          )}
+          <button
+            onClick={startSyncing}
+            className="w-full text-sm bg-[#FF385C] text-white px-4 py-2 rounded-lg hover:bg-[#E61E4D] transition-colors duration-200"
+          >
+            Start Syncing
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
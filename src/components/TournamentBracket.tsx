@@ -0,0 +1,64 @@
+import { MatchState, Player, TournamentSettings } from '../types'
+import { formatResult } from '../utils/scoring'
+import { BracketEntry, BracketMatch, getBracket, getKnockoutRoundName, getTeamName } from '../utils/tournament'
+
+interface TournamentBracketProps {
+  tournament: TournamentSettings;
+  players: Player[];
+  matchStates: MatchState[];
+}
+
+export function TournamentBracket({ tournament, players, matchStates }: TournamentBracketProps) {
+  const bracket = getBracket(tournament, matchStates)
+  const champion = bracket[bracket.length - 1][0].winner
+
+  const renderEntry = (match: BracketMatch, entry: BracketEntry, index: number) => {
+    if (!('team' in entry)) {
+      return (
+        <div key={index} className="px-2 py-1 text-gray-400 italic truncate">
+          {'bye' in entry ? 'Bye' : entry.from}
+        </div>
+      )
+    }
+    const isWinner = match.winner?.id === entry.team.id
+    return (
+      <div
+        key={index}
+        className={`px-2 py-1 truncate ${isWinner ? 'font-semibold text-[#FF385C]' : 'text-[#222222]'}`}
+      >
+        {getTeamName(entry.team, players)}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mb-8 bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <h3 className="text-xl font-semibold mb-1 text-[#222222]">Knockout</h3>
+      {champion ? (
+        <p className="mb-4 text-sm text-[#222222]">
+          Champions: <span className="font-semibold text-[#FF385C]">{getTeamName(champion, players)}</span>
+        </p>
+      ) : (
+        <p className="mb-4 text-xs text-gray-500">Teams move on as results come in; the top seeds get any byes</p>
+      )}
+      <div className="flex gap-4 overflow-x-auto">
+        {bracket.map((matches, round) => (
+          <div key={round} className="flex flex-col min-w-[11rem]">
+            <h4 className="mb-2 text-sm font-medium text-gray-700">{getKnockoutRoundName(round + 1, bracket.length)}</h4>
+            {/* Spread out so each match sits level with the two it follows */}
+            <div className="flex flex-col flex-1 justify-around gap-4">
+              {matches.map(match => (
+                <div key={match.id} className="text-sm rounded-lg border border-gray-200 divide-y divide-gray-100">
+                  {match.entries.map((entry, index) => renderEntry(match, entry, index))}
+                  {match.matchState?.result && match.matchState.result.games.length > 0 && (
+                    <div className="px-2 py-1 text-xs text-gray-500">{formatResult(match.matchState.result)}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
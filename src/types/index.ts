@@ -1,6 +1,31 @@
 export interface Player {
   id: string;
   name: string;
+  // Skill level from 1 (beginner) to 5 (advanced), if known
+  level?: number;
+  // Used to build mixed doubles teams, if known
+  category?: PlayerCategory;
+}
+
+export type PlayerCategory = 'man' | 'woman';
+
+// A club member kept between sessions, so regulars can be added with one tap
+export interface ClubMember {
+  id: string;
+  name: string;
+  level?: number;
+  category?: PlayerCategory;
+  notes?: string;
+  // Archived members keep their history but are hidden from quick add
+  archived: boolean;
+  sessionsAttended: number;
+  lastAttendedAt?: number;
+}
+
+export interface ClubRoster {
+  members: ClubMember[];
+  // Who played the most recent session
+  lastSessionMemberIds: string[];
 }
 
 export interface Match {
@@ -8,10 +33,183 @@ export interface Match {
   players: [Player, Player] | [Player, Player, Player] | [Player, Player, Player, Player];
   court: number;
   side: 'left' | 'right';
+  // Ids of pairing rules this match could not keep
+  brokenRuleIds?: string[];
+  // The tournament fixture this match plays, if any
+  fixtureId?: string;
+}
+
+// How strongly the generator avoids repeats: each earlier partnership or
+// opposition costs its weight, and recent ones cost extra
+export interface PairingWeights {
+  partnerRepeat: number;
+  opponentRepeat: number;
+  recency: number;
+}
+
+// What a court is used for when there aren't enough players left to fill
+// it with doubles
+export type LeftoverFormat = 'sitOut' | 'singles' | 'twoVsOne';
+
+// How skill levels shape a round: even teams on every court, levels ignored,
+// or the strongest players together on court 1
+export type TeamMode = 'balanced' | 'random' | 'groupedByLevel';
+
+// Rounds wait for every court to finish; rolling draws the next match for
+// a court as soon as it is free
+export type ScheduleMode = 'rounds' | 'rolling';
+
+// When a match's timer starts: as soon as it is drawn, or when tapped
+export type TimerStart = 'onDraw' | 'onTap';
+
+// What mixed doubles does when there aren't as many men as women: play
+// level doubles with the extra players, or have them sit out more often
+export type MixedFallback = 'levelDoubles' | 'sitOut';
+
+// Hard rules between two players that the generator keeps whenever it can
+export type PairingRuleType = 'mustPartner' | 'mustNotPartner' | 'mustNotOppose' | 'mustShareCourt';
+
+export interface PairingRule {
+  id: string;
+  type: PairingRuleType;
+  playerIds: [string, string];
+}
+
+export type PlayerStatus = 'active' | 'onBreak' | 'left';
+
+// Free play draws the best mix every round. Americano plays a rotation of
+// partners drawn up front and Mexicano pairs players by their standings;
+// both score points per match and rank players on their own points. King
+// of the court moves winners up a court and losers down after every round.
+// A tournament plays fixed teams through groups and a knockout bracket.
+export type SessionFormat = 'freePlay' | 'americano' | 'mexicano' | 'kingOfTheCourt' | 'tournament';
+
+// A fixed pair entered in a tournament
+export interface TournamentTeam {
+  id: string;
+  playerIds: [string, string];
+}
+
+export interface TournamentSettings {
+  // In seeding order, top seed first
+  teams: TournamentTeam[];
+  // 0 goes straight to the knockout with every team
+  groupCount: number;
+  // Teams from each group that go through to the knockout
+  qualifiersPerGroup: number;
 }
 
 export interface Session {
+  // Everyone who has been part of the session, including those who left
   players: Player[];
   numberOfCourts: number;
   matches: Match[];
-} 
\ No newline at end of file
+  seed: string;
+  pairingWeights: PairingWeights;
+  // One entry per court, court 1 first
+  leftoverFormats: LeftoverFormat[];
+  teamMode: TeamMode;
+  scheduleMode: ScheduleMode;
+  // Time box for each game, or null for untimed games
+  gameLengthMinutes: number | null;
+  timerStart: TimerStart;
+  // When the hall booking ends, if known
+  bookingEndsAt: number | null;
+  mixedDoubles: boolean;
+  mixedFallback: MixedFallback;
+  pairingRules: PairingRule[];
+  format: SessionFormat;
+  // Points both teams of an Americano or Mexicano match add up to, or null
+  // for matches played against the clock
+  pointsPerMatch: number | null;
+  // Americano rotation drawn when the session started, one entry per round
+  plannedRounds: Match[][];
+  // Teams and stages of a tournament, null for the other formats
+  tournament: TournamentSettings | null;
+  // Players missing from this map are active
+  playerStatus: Record<string, PlayerStatus>;
+  // Games credited to late arrivals and players back from a break, so they
+  // queue alongside everyone else instead of catching up every missed game
+  gameCredits: Record<string, number>;
+}
+
+export type TeamSide = 'team1' | 'team2';
+
+export interface GameScore {
+  team1: number;
+  team2: number;
+}
+
+export interface MatchResult {
+  games: GameScore[];
+  winner: TeamSide;
+}
+
+export interface MatchState {
+  match: Match;
+  completed: boolean;
+  startedAt?: number;
+  completedAt?: number;
+  round: number;
+  result?: MatchResult;
+}
+
+export interface PlayerStats {
+  player: Player;
+  doublesMatchesPlayed: number;
+  singlesMatchesPlayed: number;
+  wins: number;
+  losses: number;
+  pointDifferential: number;
+}
+
+export interface RatingChange {
+  matchId: string;
+  // Rating after the match
+  rating: number;
+  change: number;
+}
+
+export interface PlayerRating {
+  player: Player;
+  rating: number;
+  matchesRated: number;
+  // Too few rated matches for the rating to be trusted yet
+  provisional: boolean;
+  history: RatingChange[];
+}
+
+// Everything that changes a running session, recorded in order so the
+// session can be replayed from its seed. Undo and redo are recorded too;
+// each takes back or brings back one earlier step.
+export type SessionAction =
+  | { type: 'nextRound' }
+  | { type: 'refreshRound' }
+  | { type: 'redrawRound' }
+  | { type: 'addPlayer'; player: Player }
+  | { type: 'setPlayerStatus'; playerId: string; status: PlayerStatus }
+  | { type: 'swapPlayers'; playerIds: [string, string] }
+  | { type: 'startMatch'; matchId: string; startedAt: number }
+  | { type: 'recordCompletion'; matchId: string; result: MatchResult; completedAt: number }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Any action but undo and redo
+export type SessionStep = Exclude<SessionAction, { type: 'undo' } | { type: 'redo' }>;
+
+// Players sitting out a round
+export interface RoundBench {
+  round: number;
+  playerIds: string[];
+}
+
+export interface SessionState {
+  session: Session;
+  matchStates: MatchState[];
+  currentRound: number;
+  benches: RoundBench[];
+  actions: SessionAction[];
+  // False for sessions saved before every step was recorded, which can't
+  // be rebuilt from their actions and so can't be undone
+  replayable: boolean;
+}
@@ -0,0 +1,21 @@
+// Short double beep (and a buzz on phones) for when a timed game is over.
+// Fails silently where audio isn't available.
+export function playTimeUpAlert(): void {
+  navigator.vibrate?.([200, 100, 200]);
+  try {
+    const context = new AudioContext();
+    [0, 0.3].forEach((offset) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.value = 0.2;
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.2);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch {
+    // No audio here; the vibration and the timer on screen still show it
+  }
+}
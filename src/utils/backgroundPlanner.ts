@@ -0,0 +1,30 @@
+import { Player } from '../types';
+import { SessionOptions } from './sessionEngine';
+import { PlanRequest, PlanResponse, SessionPlan } from './sessionPlanner';
+
+// Plan in a worker, as a long plan for a big group takes seconds and would
+// freeze the page
+export function planSessionInBackground(
+  players: Player[],
+  numberOfCourts: number,
+  rounds: number,
+  options: SessionOptions = {}
+): Promise<SessionPlan> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./planWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PlanResponse>) => {
+      worker.terminate();
+      if ('plan' in event.data) {
+        resolve(event.data.plan);
+      } else {
+        reject(new Error(event.data.error));
+      }
+    };
+    worker.onerror = () => {
+      worker.terminate();
+      reject(new Error('Failed to plan the session'));
+    };
+    const request: PlanRequest = { players, numberOfCourts, rounds, options };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,124 @@
+import { ClubMember, ClubRoster, Player, PlayerCategory } from '../types';
+
+export const SKILL_LEVEL_LABELS: Record<number, string> = {
+  1: '1 - Beginner',
+  2: '2 - Developing',
+  3: '3 - Intermediate',
+  4: '4 - Strong',
+  5: '5 - Advanced',
+};
+
+export const CATEGORY_LABELS: Record<PlayerCategory, string> = {
+  man: 'Man',
+  woman: 'Woman',
+};
+
+export type MemberDetails = Pick<ClubMember, 'name' | 'level' | 'category' | 'notes'>;
+
+export function findMemberByName(roster: ClubRoster, name: string): ClubMember | undefined {
+  const key = name.trim().toLowerCase();
+  return roster.members.find((member) => member.name.toLowerCase() === key);
+}
+
+// Throws if the name is blank or already taken by another member
+function checkName(roster: ClubRoster, name: string, memberId?: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Enter a name for the member');
+  }
+  const existing = findMemberByName(roster, trimmed);
+  if (existing && existing.id !== memberId) {
+    throw new Error(`${existing.name} is already on the roster`);
+  }
+  return trimmed;
+}
+
+export function addMember(roster: ClubRoster, details: MemberDetails): ClubRoster {
+  const member: ClubMember = {
+    ...details,
+    id: crypto.randomUUID(),
+    name: checkName(roster, details.name),
+    archived: false,
+    sessionsAttended: 0,
+  };
+  return { ...roster, members: [...roster.members, member] };
+}
+
+export function updateMember(
+  roster: ClubRoster,
+  memberId: string,
+  changes: Partial<MemberDetails & Pick<ClubMember, 'archived'>>
+): ClubRoster {
+  const name = changes.name !== undefined ? checkName(roster, changes.name, memberId) : undefined;
+  return {
+    ...roster,
+    members: roster.members.map((member) =>
+      member.id === memberId ? { ...member, ...changes, ...(name !== undefined && { name }) } : member
+    ),
+  };
+}
+
+// Members use their roster id as their player id, so attendance can be
+// matched back to them after the session
+export function memberToPlayer(member: ClubMember): Player {
+  return { id: member.id, name: member.name, level: member.level, category: member.category };
+}
+
+export function searchMembers(roster: ClubRoster, query: string, includeArchived = false): ClubMember[] {
+  const key = query.trim().toLowerCase();
+  return roster.members.filter(
+    (member) =>
+      (includeArchived || !member.archived) &&
+      (member.name.toLowerCase().includes(key) || (member.notes ?? '').toLowerCase().includes(key))
+  );
+}
+
+// Most recent attendees first, then members who have never played, by name
+export function sortByAttendance(members: ClubMember[]): ClubMember[] {
+  return [...members].sort(
+    (a, b) => (b.lastAttendedAt ?? 0) - (a.lastAttendedAt ?? 0) || a.name.localeCompare(b.name)
+  );
+}
+
+export function getLastSessionMembers(roster: ClubRoster): ClubMember[] {
+  return roster.lastSessionMemberIds
+    .map((id) => roster.members.find((member) => member.id === id))
+    .filter((member): member is ClubMember => !!member && !member.archived);
+}
+
+// Marks everyone in a new session as attending. Players who aren't on the
+// roster yet join it, so the quick-add list builds itself over time.
+export function recordAttendance(roster: ClubRoster, players: Player[], attendedAt: number): ClubRoster {
+  let members = roster.members;
+  const attendeeIds: string[] = [];
+
+  for (const player of players) {
+    const member =
+      members.find((m) => m.id === player.id) ??
+      members.find((m) => m.name.toLowerCase() === player.name.toLowerCase());
+    if (member) {
+      members = members.map((m) =>
+        m.id === member.id
+          ? { ...m, archived: false, sessionsAttended: m.sessionsAttended + 1, lastAttendedAt: attendedAt }
+          : m
+      );
+      attendeeIds.push(member.id);
+    } else {
+      members = [
+        ...members,
+        {
+          id: player.id,
+          name: player.name,
+          level: player.level,
+          category: player.category,
+          archived: false,
+          sessionsAttended: 1,
+          lastAttendedAt: attendedAt,
+        },
+      ];
+      attendeeIds.push(player.id);
+    }
+  }
+
+  return { members, lastSessionMemberIds: attendeeIds };
+}
@@ -0,0 +1,50 @@
+import { MatchState, Player } from '../types';
+import { getTeams } from './scoring';
+
+// King of the court: court 1 is the top court. After each round the
+// winners of a court move up one and the losers move down one; the winners
+// of court 1 and the losers of the bottom court stay put.
+
+// Players of the last round in the order they line up for the next one, top
+// court first: each court takes the pair coming down from the court above
+// (or court 1's winners) and the pair coming up from the court below. The
+// bottom court's losers are left out, as they give way to anyone waiting.
+export function getLadderOrder(previousRound: MatchState[], courts: number[]): Player[][] {
+  const results = courts.map((court) => {
+    const matchState = previousRound.find((ms) => ms.match.court === court);
+    if (!matchState?.result) return { winners: [], losers: [] };
+    const [team1, team2] = getTeams(matchState.match);
+    return matchState.result.winner === 'team1'
+      ? { winners: team1, losers: team2 }
+      : { winners: team2, losers: team1 };
+  });
+
+  return courts.flatMap((_, index) => [
+    index === 0 ? results[0].winners : results[index - 1].losers,
+    index === courts.length - 1 ? [] : results[index + 1].winners,
+  ]);
+}
+
+// Split two arriving pairs so each team has one player from each:
+// [a, b] and [c, d] play a & c against b & d
+export function splitPartners(group: Player[]): Player[] {
+  const [a, b, c, d] = group;
+  return [a, c, b, d];
+}
+
+// The court each player played on in every round so far, or null for a
+// round they sat out
+export function getCourtHistory(
+  players: Player[],
+  matchStates: MatchState[],
+  rounds: number
+): Map<string, (number | null)[]> {
+  const history = new Map(players.map((player) => [player.id, Array.from({ length: rounds }, (): number | null => null)]));
+  matchStates.forEach((ms) => {
+    ms.match.players.forEach((player) => {
+      const courts = history.get(player.id);
+      if (courts && ms.round <= rounds) courts[ms.round - 1] = ms.match.court;
+    });
+  });
+  return history;
+}
@@ -0,0 +1,95 @@
+import { MatchState, Player, RoundBench } from '../types';
+import { DEFAULT_PAIRING_WEIGHTS, generateRound } from './matchGenerator';
+import { deriveRandom } from './random';
+import { calculateRestStats, setBench } from './sitOuts';
+
+function makePlayers(count: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}` }));
+}
+
+// Play the given number of rounds the way a session does, sitting out
+// whoever isn't drawn, and return who sat out each round
+function playRounds(players: Player[], courts: number[], rounds: number, seed: string): string[][] {
+  let matchStates: MatchState[] = [];
+  let benches: RoundBench[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const matches = generateRound(
+      players,
+      courts,
+      matchStates.map((ms) => ms.match),
+      deriveRandom(seed, 'round', round),
+      {
+        weights: DEFAULT_PAIRING_WEIGHTS,
+        leftoverFormats: courts.map(() => 'sitOut'),
+        restStats: calculateRestStats(players, matchStates, benches, round - 1),
+      }
+    );
+    const playing = new Set(matches.flatMap((match) => match.players.map((player) => player.id)));
+    benches = setBench(
+      benches,
+      round,
+      players.map((player) => player.id).filter((id) => !playing.has(id))
+    );
+    matchStates = [...matchStates, ...matches.map((match) => ({ match, round, completed: true }))];
+  }
+  return benches.map((bench) => bench.playerIds);
+}
+
+function sitOutCounts(benches: string[][]): Map<string, number> {
+  const counts = new Map<string, number>();
+  benches.flat().forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return counts;
+}
+
+describe('generateRound', () => {
+  it.each(['alpha', 'bravo', 'charlie'])('rotates the bench so everyone sits out once (seed %s)', (seed) => {
+    const players = makePlayers(10);
+    const benches = playRounds(players, [1, 2], 5, seed);
+
+    expect(benches.every((bench) => bench.length === 2)).toBe(true);
+    const counts = sitOutCounts(benches);
+    expect(players.map((player) => counts.get(player.id))).toEqual(players.map(() => 1));
+  });
+
+  it('never sits the same player out twice in a row', () => {
+    const players = makePlayers(9);
+    const benches = playRounds(players, [1, 2], 12, 'delta');
+
+    benches.slice(1).forEach((bench, index) => {
+      expect(bench.filter((id) => benches[index].includes(id))).toEqual([]);
+    });
+    const counts = [...sitOutCounts(benches).values()];
+    expect(Math.max(...counts) - Math.min(...counts)).toBeLessThanOrEqual(1);
+  });
+
+  it('draws the same round from the same seed', () => {
+    const players = makePlayers(8);
+    const draw = () =>
+      generateRound(players, [1, 2], [], deriveRandom('echo', 'round', 1), { weights: DEFAULT_PAIRING_WEIGHTS });
+
+    expect(draw()).toEqual(draw());
+  });
+
+  it('splits teams at random in a random refresh, whatever the history', () => {
+    const players = makePlayers(4);
+    // p1 and p2 have partnered every game so far
+    const history = Array.from({ length: 3 }, (_, i) => ({
+      id: `old${i}`,
+      players: [players[0], players[1], players[2], players[3]] as [Player, Player, Player, Player],
+      court: 1,
+      side: 'left' as const,
+    }));
+    const partnersFirstPair = (isRandomRefresh: boolean, seed: string) => {
+      const [match] = generateRound(players, [1], history, deriveRandom(seed), {
+        weights: DEFAULT_PAIRING_WEIGHTS,
+        isRandomRefresh,
+      });
+      const team = match.players.slice(0, 2).map((player) => player.id);
+      return team.includes('p1') === team.includes('p2');
+    };
+    const seeds = Array.from({ length: 20 }, (_, i) => `seed${i}`);
+
+    expect(seeds.some((seed) => partnersFirstPair(false, seed))).toBe(false);
+    expect(seeds.some((seed) => partnersFirstPair(true, seed))).toBe(true);
+  });
+});
@@ -1,233 +1,526 @@
-import { Player, Match, Session } from '../types';
+import { Player, Match, MixedFallback, PairingRule, PairingWeights, LeftoverFormat, TeamMode } from '../types';
+import { Random } from './random';
+import { findBestGrouping } from './roundOptimizer';
+import { findGroupBreaks, findPartnerGroups, findSplitBreaks, RULE_PENALTY } from './pairingRules';
+import { comparePriorityKeys, findProtectedPlayers, playPriorityKey, RestStats } from './sitOuts';
+import { getTeams } from './scoring';
+
+interface PairHistory {
+  count: number;
+  // The player's own game number when they last met, used for recency
+  lastGame: number;
+}
 
 interface PlayerHistory {
   player: Player;
   gamesPlayed: number;
-  partners: Set<string>;
-  opponents: Set<string>;
+  // Games played without a partner (singles, or alone in a 2 vs 1)
+  soloGamesPlayed: number;
+  partners: Map<string, PairHistory>;
+  opponents: Map<string, PairHistory>;
+}
+
+export interface RoundOptions {
+  weights: PairingWeights;
+  // Format per court (indexed like courts) when it can't be filled with doubles
+  leftoverFormats?: LeftoverFormat[];
+  // Sit-out history of the rounds before this one
+  restStats?: Map<string, RestStats>;
+  // Extra games counted towards a player's priority (see Session.gameCredits)
+  gameCredits?: Record<string, number>;
+  teamMode?: TeamMode;
+  // Skill levels learned from results, used instead of Player.level
+  strengths?: Record<string, number>;
+  rules?: PairingRule[];
+  mixedDoubles?: boolean;
+  mixedFallback?: MixedFallback;
+  isRandomRefresh?: boolean;
 }
 
-// Track the current round number globally
-let currentRound = 1;
+export const DEFAULT_PAIRING_WEIGHTS: PairingWeights = {
+  partnerRepeat: 3,
+  opponentRepeat: 1,
+  recency: 2,
+};
+
+export const DEFAULT_LEFTOVER_FORMAT: LeftoverFormat = 'singles';
+
+export const DEFAULT_TEAM_MODE: TeamMode = 'balanced';
+
+export const DEFAULT_MIXED_FALLBACK: MixedFallback = 'levelDoubles';
+
+// Players without a level are treated as average
+export const DEFAULT_SKILL_LEVEL = 3;
+
+// Cost per level of difference between the average strength of two teams
+const BALANCE_WEIGHT = 4;
 
-// Keep track of player histories between rounds
-const globalPlayerHistories = new Map<string, PlayerHistory>();
+// Cost per level between the strongest and weakest player on a court when
+// grouping by level
+const LEVEL_SPREAD_WEIGHT = 4;
+
+// Cost per team that isn't one man and one woman in mixed doubles, and for
+// a mixed team facing a level one
+const MIXED_PENALTY = 50;
+
+// Cost per earlier solo game, so singles and the lone side of a 2 vs 1 rotate
+const SOLO_REPEAT_WEIGHT = 2;
 
 function createPlayerHistory(player: Player): PlayerHistory {
   return {
     player,
     gamesPlayed: 0,
-    partners: new Set<string>(),
-    opponents: new Set<string>(),
+    soloGamesPlayed: 0,
+    partners: new Map<string, PairHistory>(),
+    opponents: new Map<string, PairHistory>(),
   };
 }
 
+// Rebuild player histories from the matches that have actually been played,
+// so a restored session generates rounds exactly as the original would have
+function buildPlayerHistories(
+  players: Player[],
+  completedMatches: Match[],
+  gameCredits: Record<string, number> = {}
+): Map<string, PlayerHistory> {
+  const histories = new Map<string, PlayerHistory>();
+  players.forEach((player) => {
+    histories.set(player.id, createPlayerHistory(player));
+  });
+  completedMatches.forEach((match) => {
+    updatePlayerHistories(histories, match);
+  });
+  histories.forEach((history) => {
+    history.gamesPlayed += gameCredits[history.player.id] ?? 0;
+  });
+  return histories;
+}
+
+function recordPair(pairs: Map<string, PairHistory>, otherId: string, game: number): void {
+  const record = pairs.get(otherId);
+  pairs.set(otherId, { count: (record?.count ?? 0) + 1, lastGame: game });
+}
+
 function updatePlayerHistories(
   histories: Map<string, PlayerHistory>,
   match: Match
 ): void {
-  const numPlayers = match.players.length;
-  const midPoint = numPlayers / 2;
-
-  // Update games played for all players
-  match.players.forEach((player) => {
-    const history = histories.get(player.id);
-    if (history) {
-      history.gamesPlayed++;
-    }
-  });
+  const teams = getTeams(match);
 
-  // Update partners and opponents
-  for (let i = 0; i < numPlayers; i++) {
-    const player = match.players[i];
-    const history = histories.get(player.id);
-    if (!history) continue;
+  teams.forEach((team, teamIndex) => {
+    const opponents = teams[1 - teamIndex];
 
-    // Players on the same side are partners
-    const isFirstHalf = i < midPoint;
-    const teamRange = isFirstHalf ? [0, midPoint] : [midPoint, numPlayers];
+    team.forEach((player) => {
+      const history = histories.get(player.id);
+      if (!history) return;
 
-    for (let j = teamRange[0]; j < teamRange[1]; j++) {
-      if (i !== j) {
-        const partner = match.players[j];
-        history.partners.add(partner.id);
+      history.gamesPlayed++;
+      if (team.length === 1) {
+        history.soloGamesPlayed++;
       }
-    }
 
-    // Players on the opposite side are opponents
-    const opponentRange = isFirstHalf ? [midPoint, numPlayers] : [0, midPoint];
-    for (let j = opponentRange[0]; j < opponentRange[1]; j++) {
-      const opponent = match.players[j];
-      history.opponents.add(opponent.id);
-    }
-  }
+      // Players on the same side are partners, the other side are opponents
+      team
+        .filter((partner) => partner.id !== player.id)
+        .forEach((partner) => recordPair(history.partners, partner.id, history.gamesPlayed));
+      opponents.forEach((opponent) => recordPair(history.opponents, opponent.id, history.gamesPlayed));
+    });
+  });
+}
+
+interface RankedPlayer {
+  player: Player;
+  key: number[];
 }
 
-function findLeastPlayedPlayers(
+// Rank players by who should play first (see playPriorityKey). Fixed
+// partners share the better key of the two so they play together.
+function rankPlayers(
   histories: Map<string, PlayerHistory>,
-  count: number
-): Player[] {
+  restStats: Map<string, RestStats>,
+  rules: PairingRule[],
+  groupOf?: (player: Player) => string
+): RankedPlayer[] {
+  const protectedIds = findProtectedPlayers(restStats, groupOf);
+  const keys = new Map<string, number[]>();
+  histories.forEach((history) => {
+    keys.set(history.player.id, playPriorityKey(
+      restStats.get(history.player.id),
+      history.gamesPlayed,
+      protectedIds.has(history.player.id)
+    ));
+  });
+  const partnerGroups = findPartnerGroups(rules);
+  const keyOf = (playerId: string): number[] => {
+    const groupKeys = (partnerGroups.get(playerId) ?? [playerId]).flatMap((id) => {
+      const key = keys.get(id);
+      return key ? [key] : [];
+    });
+    return groupKeys.sort(comparePriorityKeys)[0];
+  };
+
   return Array.from(histories.values())
-    .sort((a, b) => a.gamesPlayed - b.gamesPlayed)
-    .slice(0, count)
-    .map((history) => history.player);
+    .map((history) => ({ player: history.player, key: keyOf(history.player.id) }))
+    .sort((a, b) => comparePriorityKeys(a.key, b.key));
 }
 
-function findOptimalPairing(
-  players: Player[],
-  histories: Map<string, PlayerHistory>
-): Player[] {
-  const numPlayers = players.length;
-  const midPoint = numPlayers / 2;
-  let bestPairing = [...players];
-  let minSharedPartnerships = Infinity;
-
-  // Try different combinations of team arrangements
-  for (let i = 0; i < 100; i++) { // Limit iterations to prevent infinite loops
-    const shuffled = [...players];
-    for (let j = shuffled.length - 1; j > 0; j--) {
-      const k = Math.floor(Math.random() * (j + 1));
-      [shuffled[j], shuffled[k]] = [shuffled[k], shuffled[j]];
-    }
+// In mixed doubles with the sit-out fallback, the larger category only gets
+// as many places as the smaller one (plus players without a category) can
+// partner. The lowest ranked of the rest sit out.
+function limitToMixedTeams(ranked: RankedPlayer[]): RankedPlayer[] {
+  const men = ranked.filter((entry) => entry.player.category === 'man');
+  const women = ranked.filter((entry) => entry.player.category === 'woman');
+  if (men.length === 0 || women.length === 0) return ranked;
+
+  const uncategorised = ranked.length - men.length - women.length;
+  const [larger, smaller] = men.length > women.length ? [men, women] : [women, men];
+  const sittingOut = new Set(larger.slice(smaller.length + uncategorised));
+  return ranked.filter((entry) => !sittingOut.has(entry));
+}
 
-    let sharedPartnerships = 0;
-    // Count previous partnerships in this arrangement
-    for (let j = 0; j < midPoint; j++) {
-      for (let k = j + 1; k < midPoint; k++) {
-        const player1 = shuffled[j];
-        const player2 = shuffled[k];
-        const history1 = histories.get(player1.id);
-        if (history1?.partners.has(player2.id)) {
-          sharedPartnerships++;
-        }
-      }
-    }
-    for (let j = midPoint; j < numPlayers; j++) {
-      for (let k = j + 1; k < numPlayers; k++) {
-        const player1 = shuffled[j];
-        const player2 = shuffled[k];
-        const history1 = histories.get(player1.id);
-        if (history1?.partners.has(player2.id)) {
-          sharedPartnerships++;
-        }
-      }
-    }
+// Pick the players for the given number of places so neither category takes
+// more than half of them while the others can fill the rest. Ties in the
+// ranking are broken at random so the same players don't always win them.
+function balanceCategories(ranked: RankedPlayer[], slots: number, rng: Random): RankedPlayer[] {
+  const shuffled = rng.shuffle(ranked).sort((a, b) => comparePriorityKeys(a.key, b.key));
+  const taken = new Map<string, number>();
+  return shuffled.filter((entry) => {
+    const { category } = entry.player;
+    if (!category) return true;
+    const others = ranked.filter((other) => other.player.category !== category).length;
+    const cap = Math.max(Math.ceil(slots / 2), slots - others);
+    const count = taken.get(category) ?? 0;
+    taken.set(category, count + 1);
+    return count < cap;
+  });
+}
 
-    if (sharedPartnerships < minSharedPartnerships) {
-      minSharedPartnerships = sharedPartnerships;
-      bestPairing = shuffled;
-      if (minSharedPartnerships === 0) break; // Found optimal pairing
-    }
+// Everyone ranked above the cut-off must play; players tied with it compete
+// for the remaining places, and the round optimiser picks which of them sit out
+function selectPlayers(
+  ranked: RankedPlayer[],
+  count: number
+): { required: Player[]; optional: Player[] } {
+  if (ranked.length <= count) {
+    return { required: ranked.map((entry) => entry.player), optional: [] };
   }
 
-  return bestPairing;
+  const cutoff = ranked[count - 1].key;
+  return {
+    required: ranked.filter((entry) => comparePriorityKeys(entry.key, cutoff) < 0).map((entry) => entry.player),
+    optional: ranked.filter((entry) => comparePriorityKeys(entry.key, cutoff) === 0).map((entry) => entry.player),
+  };
 }
 
-function generateRound(
-  numberOfCourts: number,
-  playerHistories: Map<string, PlayerHistory>,
-  isRandomRefresh: boolean = false
-): Match[] {
-  const roundMatches: Match[] = [];
-  const playersNeeded = numberOfCourts * 4;
+// Cost of two players meeting again as partners or opponents: every earlier
+// meeting counts, and a recent one counts extra
+function pairCost(
+  history: PlayerHistory | undefined,
+  pairs: 'partners' | 'opponents',
+  otherId: string,
+  weight: number,
+  recency: number
+): number {
+  const record = history?.[pairs].get(otherId);
+  if (!history || !record) return 0;
+  const gamesSince = history.gamesPlayed - record.lastGame;
+  return weight * (record.count + recency / (1 + gamesSince));
+}
 
-  // Select players based on whether it's a random refresh or not
-  let selectedPlayers: Player[];
-  if (isRandomRefresh) {
-    // For random refresh, select from all available players
-    selectedPlayers = Array.from(playerHistories.values())
-      .map(history => history.player)
-      .sort(() => Math.random() - 0.5)
-      .slice(0, playersNeeded);
-  } else {
-    // Normal selection based on least played players
-    selectedPlayers = findLeastPlayedPlayers(
-      playerHistories,
-      playersNeeded
-    );
-  }
+// Skill level of a player on the 1-5 scale, possibly fractional
+type LevelOf = (player: Player) => number;
 
-  if (selectedPlayers.length < playersNeeded) {
-    throw new Error(`Not enough players available. Need ${playersNeeded} players for ${numberOfCourts} courts.`);
-  }
+function averageLevel(players: Player[], levelOf: LevelOf): number {
+  return players.reduce((sum, player) => sum + levelOf(player), 0) / players.length;
+}
 
-  // Shuffle all selected players together before distributing to courts
-  const shuffledPlayers = [...selectedPlayers];
-  for (let i = shuffledPlayers.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [shuffledPlayers[i], shuffledPlayers[j]] = [shuffledPlayers[j], shuffledPlayers[i]];
-  }
+// Everything the cost of a court depends on
+interface PairingContext {
+  histories: Map<string, PlayerHistory>;
+  weights: PairingWeights;
+  // Level to balance teams on, or null to ignore levels
+  balanceBy: LevelOf | null;
+  rules: PairingRule[];
+  mixedDoubles: boolean;
+}
 
-  // Distribute players to courts
-  for (let court = 1; court <= numberOfCourts; court++) {
-    const courtPlayers = shuffledPlayers.slice((court - 1) * 4, court * 4);
-    const optimizedPlayers = findOptimalPairing(courtPlayers, playerHistories);
+// 'mixed', the category of a level pair, or null when it doesn't apply
+function teamKind(team: Player[]): string | null {
+  if (team.length !== 2 || team.some((player) => !player.category)) return null;
+  return team[0].category === team[1].category ? team[0].category ?? null : 'mixed';
+}
 
-    const match: Match = {
-      id: crypto.randomUUID(),
-      players: optimizedPlayers as [Player, Player, Player, Player],
-      court,
-      side: Math.random() < 0.5 ? 'left' : 'right',
-    };
+function mixedTeamsCost(teams: [Player[], Player[]]): number {
+  const kinds = teams.map(teamKind);
+  if (kinds.some((kind) => kind === null)) return 0;
+  const levelTeams = kinds.filter((kind) => kind !== 'mixed').length;
+  return MIXED_PENALTY * (levelTeams + (kinds[0] !== kinds[1] ? 1 : 0));
+}
 
-    roundMatches.push(match);
-    updatePlayerHistories(playerHistories, match);
+// Cost of the rules a split breaks, which even a random draw must respect
+function constraintCost(teams: [Player[], Player[]], { rules, mixedDoubles }: PairingContext): number {
+  return RULE_PENALTY * findSplitBreaks(teams, rules).length + (mixedDoubles ? mixedTeamsCost(teams) : 0);
+}
+
+function teamSplitCost(
+  teams: [Player[], Player[]],
+  context: PairingContext
+): number {
+  const { histories, weights, balanceBy } = context;
+  let cost = constraintCost(teams, context);
+  if (balanceBy) {
+    cost += BALANCE_WEIGHT * Math.abs(averageLevel(teams[0], balanceBy) - averageLevel(teams[1], balanceBy));
   }
+  teams.forEach((team, teamIndex) => {
+    const opponents = teams[1 - teamIndex];
+    team.forEach((player) => {
+      const history = histories.get(player.id);
+      if (team.length === 1) {
+        cost += SOLO_REPEAT_WEIGHT * (history?.soloGamesPlayed ?? 0);
+      }
+      team
+        .filter((partner) => partner.id !== player.id)
+        .forEach((partner) => {
+          cost += pairCost(history, 'partners', partner.id, weights.partnerRepeat, weights.recency);
+        });
+      opponents.forEach((opponent) => {
+        cost += pairCost(history, 'opponents', opponent.id, weights.opponentRepeat, weights.recency);
+      });
+    });
+  });
+  return cost;
+}
+
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((combo) => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
 
-  return roundMatches;
+// Every distinct way to split a court into two teams. The first team is the
+// smaller one for odd counts; for even counts the first player always stays
+// in the first team so mirrored splits aren't listed twice.
+function enumerateTeamSplits(players: Player[]): [Player[], Player[]][] {
+  const teamSize = Math.floor(players.length / 2);
+  const candidates = players.length === teamSize * 2
+    ? combinations(players.slice(1), teamSize - 1).map((team) => [players[0], ...team])
+    : combinations(players, teamSize);
+
+  return candidates.map((team1) => [
+    team1,
+    players.filter((player) => !team1.includes(player)),
+  ]);
 }
 
-export function generateSession(
+// Exact search over every team split of a court (three for doubles), picking
+// the one that keeps the pairing rules with the fewest and least recent
+// repeated partners and opponents, and the most even teams when balancing
+function findBestTeamSplit(
   players: Player[],
-  numberOfCourts: number,
-  previousMatches: Match[] = []
-): Session {
-  if (players.length < 4) {
-    throw new Error('Need at least 4 players to generate matches');
-  }
+  context: PairingContext
+): { split: [Player[], Player[]]; cost: number } {
+  const splits = enumerateTeamSplits(players);
+  let bestSplit = splits[0];
+  let minCost = Infinity;
+
+  splits.forEach((split) => {
+    const cost = teamSplitCost(split, context);
+    if (cost < minCost) {
+      minCost = cost;
+      bestSplit = split;
+    }
+  });
 
-  // Reset round counter and histories when starting a new session
-  currentRound = 1;
-  globalPlayerHistories.clear();
+  return { split: bestSplit, cost: minCost };
+}
 
-  // Initialize player histories
-  players.forEach((player) => {
-    globalPlayerHistories.set(player.id, createPlayerHistory(player));
-  });
+function findOptimalPairing(
+  players: Player[],
+  context: PairingContext,
+  rng: Random
+): [Player[], Player[]] {
+  // Shuffling first breaks ties at random and varies who starts on which side
+  return findBestTeamSplit(rng.shuffle(players), context).split;
+}
 
-  // Update histories with previous matches
-  previousMatches.forEach((match) => {
-    updatePlayerHistories(globalPlayerHistories, match);
-  });
+// A split picked at random from those that keep the rules and mixed teams
+// as well as any can, ignoring history and levels
+function findRandomPairing(
+  players: Player[],
+  context: PairingContext,
+  rng: Random
+): [Player[], Player[]] {
+  const splits = enumerateTeamSplits(rng.shuffle(players));
+  const costs = splits.map((split) => constraintCost(split, context));
+  const fewest = Math.min(...costs);
+  const candidates = splits.filter((_, index) => costs[index] === fewest);
+  return candidates[rng.int(candidates.length)];
+}
 
-  // Generate first round of matches
-  const matches = generateRound(numberOfCourts, globalPlayerHistories);
+// Fewest players a court can be used with, by what it does with leftovers
+export function minPlayersForCourt(leftoverFormat: LeftoverFormat): number {
+  return leftoverFormat === 'sitOut' ? 4 : 2;
+}
 
-  return {
-    players,
-    numberOfCourts,
-    matches,
-  };
+// Decide how many players go on each court: doubles wherever possible, then
+// the players left over play singles or 2 vs 1 on a free court if that court
+// allows it. Courts that allow sitting out only are filled with doubles first
+// so the flexible ones are free for leftovers. A size of 0 leaves a court empty.
+function planCourtSizes(playerCount: number, leftoverFormats: LeftoverFormat[]): number[] {
+  const order = leftoverFormats
+    .map((format, index) => ({ format, index }))
+    .sort((a, b) => Number(a.format !== 'sitOut') - Number(b.format !== 'sitOut'));
+
+  const sizes = leftoverFormats.map(() => 0);
+  let remaining = playerCount;
+  order.forEach(({ index }) => {
+    if (remaining >= 4) {
+      sizes[index] = 4;
+      remaining -= 4;
+    }
+  });
+  order.forEach(({ format, index }) => {
+    if (sizes[index] > 0) return;
+    if (format === 'twoVsOne' && remaining >= 3) {
+      sizes[index] = 3;
+    } else if (format !== 'sitOut' && remaining >= 2) {
+      sizes[index] = 2;
+    }
+    remaining -= sizes[index];
+  });
+  return sizes;
+}
+
+// Put the strongest groups on the lowest numbered courts. Only groups of the
+// same size swap courts, so a singles court keeps its place.
+function orderGroupsByLevel(groups: Player[][], levelOf: LevelOf): Player[][] {
+  const ordered = [...groups];
+  const sizes = new Set(groups.map((group) => group.length));
+  sizes.forEach((size) => {
+    const indexes = groups.flatMap((group, index) => (group.length === size ? [index] : []));
+    const strongestFirst = indexes
+      .map((index) => groups[index])
+      .sort((a, b) => averageLevel(b, levelOf) - averageLevel(a, levelOf));
+    indexes.forEach((index, i) => {
+      ordered[index] = strongestFirst[i];
+    });
+  });
+  return ordered;
 }
 
-export function generateNextRound(
-  numberOfCourts: number,
+// Generate matches for the given courts from the available players. Pure:
+// histories are rebuilt from completedMatches on every call, so each played
+// match is counted exactly once and nothing leaks between sessions. All
+// randomness comes from rng, so the same seed always gives the same draw.
+export function generateRound(
+  players: Player[],
+  courts: number[],
   completedMatches: Match[],
-  isRandomRefresh: boolean = false
+  rng: Random,
+  options: RoundOptions
 ): Match[] {
-  // Update histories with completed matches
-  completedMatches.forEach((match) => {
-    updatePlayerHistories(globalPlayerHistories, match);
-  });
+  const {
+    weights,
+    leftoverFormats = courts.map(() => DEFAULT_LEFTOVER_FORMAT),
+    restStats = new Map<string, RestStats>(),
+    gameCredits,
+    teamMode = DEFAULT_TEAM_MODE,
+    strengths,
+    rules = [],
+    mixedDoubles = false,
+    mixedFallback = DEFAULT_MIXED_FALLBACK,
+    isRandomRefresh = false,
+  } = options;
+  const levelOf: LevelOf = (player) => strengths?.[player.id] ?? player.level ?? DEFAULT_SKILL_LEVEL;
+  const playerHistories = buildPlayerHistories(players, completedMatches, gameCredits);
+  const context: PairingContext = {
+    histories: playerHistories,
+    weights,
+    balanceBy: teamMode === 'random' ? null : levelOf,
+    rules,
+    mixedDoubles,
+  };
 
-  // Increment round number
-  currentRound++;
+  // Least played and longest waiting players first. In mixed doubles each
+  // category only competes with itself for rests.
+  let ranked = rankPlayers(
+    playerHistories,
+    restStats,
+    rules,
+    mixedDoubles ? (player) => player.category ?? '' : undefined
+  );
+  if (mixedDoubles && mixedFallback === 'sitOut') {
+    ranked = limitToMixedTeams(ranked);
+  }
 
-  // Generate next round of matches
-  return generateRound(numberOfCourts, globalPlayerHistories, isRandomRefresh);
-}
+  const sizes = planCourtSizes(ranked.length, leftoverFormats);
+  const usedCourts = courts.filter((_, index) => sizes[index] > 0);
+  const groupSizes = sizes.filter((size) => size > 0);
+  const playersNeeded = groupSizes.reduce((sum, size) => sum + size, 0);
 
-// Get the current round number
-export function getCurrentRound(): number {
-  return currentRound;
+  if (usedCourts.length === 0) {
+    throw new Error('Not enough players available. Need at least 4 players, or 2 on a court that allows singles.');
+  }
+
+  if (mixedDoubles && mixedFallback === 'sitOut') {
+    ranked = balanceCategories(ranked, playersNeeded, rng);
+  }
+  const { required, optional } = selectPlayers(ranked, playersNeeded);
+
+  let courtGroups: Player[][];
+  if (isRandomRefresh) {
+    // For random refresh, keep the fair selection, the pairing rules and
+    // mixed teams but otherwise put players on courts and in teams at
+    // random: with only those costing anything, every grouping that keeps
+    // them is equally good, and the teams are picked the same way below
+    courtGroups = findBestGrouping(
+      {
+        required,
+        optional,
+        groupSizes,
+        groupCost: (group) => RULE_PENALTY * findGroupBreaks(group, rules).length +
+          Math.min(...enumerateTeamSplits(group).map((split) => constraintCost(split, context))),
+      },
+      rng
+    );
+  } else {
+    // Find the best split across all courts
+    courtGroups = findBestGrouping(
+      {
+        required,
+        optional,
+        groupSizes,
+        groupCost: (group) => {
+          const cost = RULE_PENALTY * findGroupBreaks(group, rules).length + findBestTeamSplit(group, context).cost;
+          if (teamMode !== 'groupedByLevel') return cost;
+          const levels = group.map(levelOf);
+          return cost + LEVEL_SPREAD_WEIGHT * (Math.max(...levels) - Math.min(...levels));
+        },
+      },
+      rng
+    );
+    if (teamMode === 'groupedByLevel') {
+      courtGroups = orderGroupsByLevel(courtGroups, levelOf);
+    }
+  }
+
+  return usedCourts.map((court, index) => {
+    const teams = isRandomRefresh
+      ? findRandomPairing(courtGroups[index], context, rng)
+      : findOptimalPairing(courtGroups[index], context, rng);
+    // Report any rule that couldn't be kept instead of failing the draw
+    const brokenRuleIds = [...findGroupBreaks(courtGroups[index], rules), ...findSplitBreaks(teams, rules)]
+      .map((rule) => rule.id);
+    return {
+      id: rng.id(),
+      players: [...teams[0], ...teams[1]] as Match['players'],
+      court,
+      side: rng.next() < 0.5 ? 'left' : 'right',
+      ...(brokenRuleIds.length > 0 && { brokenRuleIds }),
+    };
+  });
 }
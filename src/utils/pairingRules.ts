@@ -0,0 +1,99 @@
+import { Player, PairingRule, PairingRuleType } from '../types';
+
+// Cost of breaking one rule. Far above any repeat or balance cost, so a rule
+// is only broken when there is no way around it.
+export const RULE_PENALTY = 1000;
+
+export const PAIRING_RULE_LABELS: Record<PairingRuleType, string> = {
+  mustPartner: 'always partners',
+  mustNotPartner: 'never partners',
+  mustNotOppose: 'never opponents',
+  mustShareCourt: 'always on the same court',
+};
+
+// Rules that pull both players onto the court together
+function isTogetherRule(rule: PairingRule): boolean {
+  return rule.type === 'mustPartner' || rule.type === 'mustShareCourt';
+}
+
+function playerName(players: Player[], playerId: string): string {
+  return players.find((player) => player.id === playerId)?.name ?? 'Unknown player';
+}
+
+export function describePairingRule(rule: PairingRule, players: Player[]): string {
+  const [a, b] = rule.playerIds;
+  return `${playerName(players, a)} & ${playerName(players, b)}: ${PAIRING_RULE_LABELS[rule.type]}`;
+}
+
+// Throws if a rule names a player who isn't in the session, or two rules
+// can never be kept at the same time
+export function validatePairingRules(rules: PairingRule[], players: Player[]): void {
+  const playerIds = new Set(players.map((player) => player.id));
+  const pairKey = (rule: PairingRule) => [...rule.playerIds].sort().join('|');
+
+  rules.forEach((rule) => {
+    const [a, b] = rule.playerIds;
+    if (a === b) {
+      throw new Error(`A rule needs two different players (${describePairingRule(rule, players)})`);
+    }
+    if (!playerIds.has(a) || !playerIds.has(b)) {
+      throw new Error('A pairing rule names a player who is not in this session');
+    }
+  });
+
+  const typesByPair = new Map<string, Set<PairingRuleType>>();
+  rules.forEach((rule) => {
+    const types = typesByPair.get(pairKey(rule)) ?? new Set<PairingRuleType>();
+    types.add(rule.type);
+    typesByPair.set(pairKey(rule), types);
+  });
+  rules.forEach((rule) => {
+    const types = typesByPair.get(pairKey(rule));
+    if (types?.has('mustPartner') && types.has('mustNotPartner')) {
+      const [a, b] = rule.playerIds;
+      throw new Error(`${playerName(players, a)} & ${playerName(players, b)} can't be always and never partners`);
+    }
+  });
+}
+
+// Rules broken by who is on a court: a together rule is broken when only one
+// of its players is there
+export function findGroupBreaks(group: Player[], rules: PairingRule[]): PairingRule[] {
+  const ids = new Set(group.map((player) => player.id));
+  return rules.filter((rule) => isTogetherRule(rule) && ids.has(rule.playerIds[0]) !== ids.has(rule.playerIds[1]));
+}
+
+// Rules broken by how a court is split into teams
+export function findSplitBreaks(teams: [Player[], Player[]], rules: PairingRule[]): PairingRule[] {
+  const teamOf = new Map<string, number>();
+  teams.forEach((team, teamIndex) => team.forEach((player) => teamOf.set(player.id, teamIndex)));
+
+  return rules.filter((rule) => {
+    const teamA = teamOf.get(rule.playerIds[0]);
+    const teamB = teamOf.get(rule.playerIds[1]);
+    if (teamA === undefined || teamB === undefined) return false;
+    switch (rule.type) {
+      case 'mustPartner':
+        return teamA !== teamB;
+      case 'mustNotPartner':
+        return teamA === teamB;
+      case 'mustNotOppose':
+        return teamA !== teamB;
+      case 'mustShareCourt':
+        return false;
+    }
+  });
+}
+
+// Groups of players tied by must-partner rules, so they are picked to play
+// together. Returns each player's group as a list of ids.
+export function findPartnerGroups(rules: PairingRule[]): Map<string, string[]> {
+  const groups = new Map<string, string[]>();
+  rules
+    .filter((rule) => rule.type === 'mustPartner')
+    .forEach(({ playerIds: [a, b] }) => {
+      const merged = Array.from(new Set([...(groups.get(a) ?? [a]), ...(groups.get(b) ?? [b])]));
+      merged.forEach((id) => groups.set(id, merged));
+    });
+  return groups;
+}
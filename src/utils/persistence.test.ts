@@ -0,0 +1,141 @@
+import { Match, MatchState, Player } from '../types';
+import { migrateSession, PersistedSession, SESSION_SCHEMA_VERSION } from './persistence';
+import { startSession } from './sessionEngine';
+
+const players: Player[] = Array.from({ length: 5 }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}` }));
+const match: Match = { id: 'm1', players: [players[0], players[1], players[2], players[3]], court: 1, side: 'left' };
+const matchStates: MatchState[] = [
+  { match, round: 1, completed: true, result: { games: [{ team1: 21, team2: 17 }], winner: 'team1' } },
+];
+
+// What each version added to a save, so a save can be built as an older
+// version of the app wrote it
+const ADDED_IN: Record<number, (save: Record<string, unknown>, session: Record<string, unknown>) => void> = {
+  1: (save) => {
+    save.allCompletedMatches = [match];
+  },
+  2: (save) => {
+    delete save.allCompletedMatches;
+  },
+  3: (save, session) => {
+    session.seed = 'oldseed';
+    save.actions = [];
+  },
+  4: (_, session) => {
+    session.pairingWeights = { partnerRepeat: 5, opponentRepeat: 2, recency: 1 };
+  },
+  5: (save) => {
+    save.benches = [{ round: 1, playerIds: ['p5'] }];
+  },
+  6: (_, session) => {
+    session.leftoverFormats = ['sitOut'];
+  },
+  7: (_, session) => {
+    session.playerStatus = {};
+    session.gameCredits = {};
+  },
+  8: (_, session) => {
+    session.teamMode = 'random';
+  },
+  9: (_, session) => {
+    session.pairingRules = [];
+  },
+  10: (_, session) => {
+    session.mixedDoubles = false;
+    session.mixedFallback = 'sitOut';
+  },
+  11: (_, session) => {
+    session.scheduleMode = 'rounds';
+  },
+  12: (save, session) => {
+    session.gameLengthMinutes = 12;
+    session.timerStart = 'onTap';
+    session.bookingEndsAt = null;
+    save.undoStack = [];
+  },
+  13: (save) => {
+    delete save.undoStack;
+    save.replayable = false;
+  },
+  14: (_, session) => {
+    session.format = 'freePlay';
+    session.pointsPerMatch = null;
+    session.plannedRounds = [];
+  },
+  15: (_, session) => {
+    session.tournament = null;
+  },
+};
+
+function saveFromVersion(version: number): PersistedSession {
+  const session: Record<string, unknown> = { players, numberOfCourts: 1, matches: [match] };
+  const save: Record<string, unknown> = { session, matchStates, currentRound: 1, savedAt: 1000 };
+  for (let v = 1; v <= version; v++) {
+    ADDED_IN[v]?.(save, session);
+  }
+  return { ...save, version } as unknown as PersistedSession;
+}
+
+describe('migrateSession', () => {
+  const versions = Array.from({ length: SESSION_SCHEMA_VERSION - 1 }, (_, i) => i + 1);
+
+  it.each(versions)('brings a version %i save up to date', (version) => {
+    const migrated = migrateSession(saveFromVersion(version));
+
+    expect(migrated).not.toBeNull();
+    expect(migrated?.version).toBe(SESSION_SCHEMA_VERSION);
+    expect(migrated?.matchStates).toEqual(matchStates);
+    expect(migrated).not.toHaveProperty('allCompletedMatches');
+    expect(migrated).not.toHaveProperty('undoStack');
+    expect(migrated?.actions).toEqual([]);
+    expect(migrated?.replayable).toBe(false);
+    expect(migrated?.benches).toEqual([{ round: 1, playerIds: ['p5'] }]);
+    expect(migrated?.session).toMatchObject({
+      leftoverFormats: [expect.any(String)],
+      playerStatus: {},
+      gameCredits: {},
+      pairingRules: [],
+      mixedDoubles: false,
+      scheduleMode: 'rounds',
+      timerStart: 'onTap',
+      bookingEndsAt: null,
+      format: 'freePlay',
+      pointsPerMatch: null,
+      plannedRounds: [],
+      tournament: null,
+    });
+    expect(typeof migrated?.session.seed).toBe('string');
+  });
+
+  it('keeps the settings an older save already had', () => {
+    const migrated = migrateSession(saveFromVersion(12));
+
+    expect(migrated?.session).toMatchObject({
+      seed: 'oldseed',
+      pairingWeights: { partnerRepeat: 5, opponentRepeat: 2, recency: 1 },
+      leftoverFormats: ['sitOut'],
+      teamMode: 'random',
+      mixedFallback: 'sitOut',
+      gameLengthMinutes: 12,
+    });
+  });
+
+  it('keeps a version 15 save that still replays replayable', () => {
+    const state = startSession(players, 1, { seed: 'hotel' });
+    const migrated = migrateSession({ ...state, version: 15, savedAt: 1000 });
+
+    expect(migrated?.replayable).toBe(true);
+  });
+
+  it('leaves a current save as it is', () => {
+    const save = { ...startSession(players, 1, { seed: 'india' }), version: SESSION_SCHEMA_VERSION, savedAt: 1000 };
+
+    expect(migrateSession(save)).toEqual(save);
+  });
+
+  it('refuses a save from a newer version', () => {
+    const save = { ...startSession(players, 1, { seed: 'juliet' }), version: SESSION_SCHEMA_VERSION + 1, savedAt: 1000 };
+
+    expect(migrateSession(save)).toBeNull();
+  });
+});
@@ -0,0 +1,258 @@
+import { ClubRoster, SessionState } from '../types';
+import { createSeed } from './random';
+import {
+  DEFAULT_LEFTOVER_FORMAT,
+  DEFAULT_MIXED_FALLBACK,
+  DEFAULT_PAIRING_WEIGHTS,
+  DEFAULT_TEAM_MODE,
+} from './matchGenerator';
+import { isReplayable } from './sessionEngine';
+
+const STORAGE_KEY = 'badminton-session';
+
+// Bump whenever the shape of PersistedSession changes, and teach
+// migrateSession how to bring older saves up to date
+export const SESSION_SCHEMA_VERSION = 17;
+
+export interface PersistedSession extends SessionState {
+  version: number;
+  savedAt: number;
+}
+
+export function isPersistedSession(value: unknown): value is PersistedSession {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Partial<PersistedSession>;
+  return (
+    typeof data.version === 'number' &&
+    typeof data.savedAt === 'number' &&
+    typeof data.currentRound === 'number' &&
+    !!data.session &&
+    Array.isArray(data.session.players) &&
+    Array.isArray(data.session.matches) &&
+    Array.isArray(data.matchStates)
+  );
+}
+
+// Upgrade a save one version at a time until it reaches the current schema
+export function migrateSession(data: PersistedSession): PersistedSession | null {
+  let migrated = data;
+
+  if (migrated.version === 1) {
+    // Version 1 also stored the completed matches separately from matchStates
+    const upgraded: PersistedSession & { allCompletedMatches?: unknown } = { ...migrated, version: 2 };
+    delete upgraded.allCompletedMatches;
+    migrated = upgraded;
+  }
+
+  if (migrated.version === 2) {
+    // Version 3 added the draw seed and the action log. Older sessions get a
+    // fresh seed and an empty log; they keep working but can't be replayed.
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, seed: createSeed() },
+      actions: [],
+      version: 3,
+    };
+  }
+
+  if (migrated.version === 3) {
+    // Version 4 made the pairing weights configurable
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, pairingWeights: DEFAULT_PAIRING_WEIGHTS },
+      version: 4,
+    };
+  }
+
+  if (migrated.version === 4) {
+    // Version 5 records who sat out each round; before that everyone not
+    // on a court sat out
+    const { session, matchStates, currentRound } = migrated;
+    const benches = Array.from({ length: currentRound }, (_, i) => {
+      const round = i + 1;
+      const playing = new Set(
+        matchStates
+          .filter((ms) => ms.round === round)
+          .flatMap((ms) => ms.match.players.map((player) => player.id))
+      );
+      return {
+        round,
+        playerIds: session.players.map((player) => player.id).filter((id) => !playing.has(id)),
+      };
+    });
+    migrated = { ...migrated, benches, version: 5 };
+  }
+
+  if (migrated.version === 5) {
+    // Version 6 added singles and 2 vs 1 for courts that can't be filled
+    const leftoverFormats = Array.from({ length: migrated.session.numberOfCourts }, () => DEFAULT_LEFTOVER_FORMAT);
+    migrated = { ...migrated, session: { ...migrated.session, leftoverFormats }, version: 6 };
+  }
+
+  if (migrated.version === 6) {
+    // Version 7 lets players join, take a break or leave mid-session
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, playerStatus: {}, gameCredits: {} },
+      version: 7,
+    };
+  }
+
+  if (migrated.version === 7) {
+    // Version 8 added skill levels; older players have none, so balancing
+    // makes no difference to them
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, teamMode: DEFAULT_TEAM_MODE },
+      version: 8,
+    };
+  }
+
+  if (migrated.version === 8) {
+    // Version 9 added pairing rules
+    migrated = { ...migrated, session: { ...migrated.session, pairingRules: [] }, version: 9 };
+  }
+
+  if (migrated.version === 9) {
+    // Version 10 added mixed doubles
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, mixedDoubles: false, mixedFallback: DEFAULT_MIXED_FALLBACK },
+      version: 10,
+    };
+  }
+
+  if (migrated.version === 10) {
+    // Version 11 added rolling sessions
+    migrated = { ...migrated, session: { ...migrated.session, scheduleMode: 'rounds' }, version: 11 };
+  }
+
+  if (migrated.version === 11) {
+    // Version 12 added match timers and the booking end
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, gameLengthMinutes: null, timerStart: 'onTap', bookingEndsAt: null },
+      version: 12,
+    };
+  }
+
+  if (migrated.version === 12) {
+    // Version 13 undoes any step by replaying the actions before it, which
+    // replaces the stack of earlier match states. Saves whose actions don't
+    // replay to the same matches keep working but can't be undone.
+    const upgraded: PersistedSession & { undoStack?: unknown } = { ...migrated, replayable: false, version: 13 };
+    delete upgraded.undoStack;
+    migrated = { ...upgraded, replayable: isReplayable(upgraded) };
+  }
+
+  if (migrated.version === 13) {
+    // Version 14 added the Americano and Mexicano formats
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, format: 'freePlay', pointsPerMatch: null, plannedRounds: [] },
+      version: 14,
+    };
+  }
+
+  if (migrated.version === 14) {
+    // Version 15 added tournaments
+    migrated = {
+      ...migrated,
+      session: { ...migrated.session, tournament: null },
+      version: 15,
+    };
+  }
+
+  if (migrated.version === 15) {
+    // Version 16 draws the first round from a stream of its own and keeps
+    // match ids unique, so older actions may no longer replay to the same
+    // matches
+    const upgraded: PersistedSession = { ...migrated, version: 16 };
+    migrated = { ...upgraded, replayable: upgraded.replayable && isReplayable(upgraded) };
+  }
+
+  if (migrated.version === 16) {
+    // Version 17 splits teams at random in a random refresh, so older
+    // refreshes may no longer replay to the same matches
+    const upgraded: PersistedSession = { ...migrated, version: 17 };
+    migrated = { ...upgraded, replayable: upgraded.replayable && isReplayable(upgraded) };
+  }
+
+  // Saves from a newer version of the app can't be read safely
+  return migrated.version === SESSION_SCHEMA_VERSION ? migrated : null;
+}
+
+export function saveSession(state: SessionState): void {
+  const data: PersistedSession = {
+    ...state,
+    version: SESSION_SCHEMA_VERSION,
+    savedAt: Date.now(),
+  };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // Storage can be full or disabled (e.g. private browsing); the session
+    // still works, it just won't survive a reload
+  }
+}
+
+export function loadSession(): PersistedSession | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const data: unknown = JSON.parse(raw);
+    return isPersistedSession(data) ? migrateSession(data) : null;
+  } catch {
+    // An unreadable save is treated like no save, so setup starts afresh
+    return null;
+  }
+}
+
+export function clearSession(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Without storage there is no saved session to clear
+  }
+}
+
+const ROSTER_STORAGE_KEY = 'badminton-club-roster';
+
+// The club roster is saved separately from the session so it outlives it
+export const ROSTER_SCHEMA_VERSION = 1;
+
+interface PersistedRoster extends ClubRoster {
+  version: number;
+}
+
+function isPersistedRoster(value: unknown): value is PersistedRoster {
+  if (!value || typeof value !== 'object') return false;
+  const data = value as Partial<PersistedRoster>;
+  return (
+    data.version === ROSTER_SCHEMA_VERSION &&
+    Array.isArray(data.members) &&
+    Array.isArray(data.lastSessionMemberIds)
+  );
+}
+
+export function saveRoster(roster: ClubRoster): void {
+  try {
+    const data: PersistedRoster = { ...roster, version: ROSTER_SCHEMA_VERSION };
+    localStorage.setItem(ROSTER_STORAGE_KEY, JSON.stringify(data));
+  } catch {
+    // As with the session, the roster just won't outlive this visit
+  }
+}
+
+export function loadRoster(): ClubRoster {
+  try {
+    const raw = localStorage.getItem(ROSTER_STORAGE_KEY);
+    const data: unknown = raw ? JSON.parse(raw) : null;
+    if (isPersistedRoster(data)) {
+      return { members: data.members, lastSessionMemberIds: data.lastSessionMemberIds };
+    }
+  } catch {
+    // An unreadable roster starts empty
+  }
+  return { members: [], lastSessionMemberIds: [] };
+}
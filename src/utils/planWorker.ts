@@ -0,0 +1,13 @@
+import { planSession, PlanRequest, PlanResponse } from './sessionPlanner';
+
+// Draws a plan off the page's thread for planSessionInBackground
+self.onmessage = (event: MessageEvent<PlanRequest>) => {
+  const { players, numberOfCourts, rounds, options } = event.data;
+  let response: PlanResponse;
+  try {
+    response = { plan: planSession(players, numberOfCourts, rounds, options) };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : 'Failed to plan the session' };
+  }
+  self.postMessage(response);
+};
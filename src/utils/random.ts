@@ -0,0 +1,78 @@
+// Seeded pseudo-random numbers, so a draw can be replayed from its seed.
+// Anything implementing Random can be passed to the generator instead.
+export interface Random {
+  // Uniform float in [0, 1)
+  next(): number;
+  // Uniform integer in [0, max)
+  int(max: number): number;
+  // Unbiased Fisher-Yates shuffle returning a new array
+  shuffle<T>(items: readonly T[]): T[];
+  // Short random identifier, deterministic for the seed
+  id(): string;
+}
+
+const SEED_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 6;
+
+// Hash a string seed into a 32-bit state (FNV-1a followed by a final mix)
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and good enough for shuffling players
+function mulberry32(state: number): () => number {
+  let a = state;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createRandom(seed: string): Random {
+  const next = mulberry32(hashSeed(seed));
+  const int = (max: number) => Math.floor(next() * max);
+
+  return {
+    next,
+    int,
+    shuffle(items) {
+      const shuffled = [...items];
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = int(i + 1);
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+      }
+      return shuffled;
+    },
+    id() {
+      return (
+        Math.floor(next() * 2 ** 32).toString(36) +
+        Math.floor(next() * 2 ** 32).toString(36)
+      );
+    },
+  };
+}
+
+// Derive an independent stream for one step of a session, e.g. a round
+export function deriveRandom(seed: string, ...parts: (string | number)[]): Random {
+  return createRandom([seed, ...parts].join(':'));
+}
+
+// A short seed that is easy to read out or type on another device
+export function createSeed(): string {
+  const values = crypto.getRandomValues(new Uint32Array(SEED_LENGTH));
+  return Array.from(values, (value) => SEED_ALPHABET[value % SEED_ALPHABET.length]).join('');
+}
+
+export function normalizeSeed(seed: string): string {
+  return seed.trim().toLowerCase();
+}
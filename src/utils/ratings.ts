@@ -0,0 +1,100 @@
+import { Player, MatchState, PlayerRating } from '../types';
+import { DEFAULT_SKILL_LEVEL } from './matchGenerator';
+import { getTeams } from './scoring';
+
+export const INITIAL_RATING = 1500;
+
+// Rating points per skill level, so a level 4 player starts at 1600
+export const RATING_PER_LEVEL = 100;
+
+// Ratings move faster until a player has this many rated matches
+export const PROVISIONAL_MATCHES = 5;
+
+const K_FACTOR = 24;
+const PROVISIONAL_K_FACTOR = 48;
+
+// A win by this many points counts double a narrow win
+const BLOWOUT_MARGIN = 21;
+
+export function initialRating(player: Player): number {
+  return INITIAL_RATING + ((player.level ?? DEFAULT_SKILL_LEVEL) - DEFAULT_SKILL_LEVEL) * RATING_PER_LEVEL;
+}
+
+// Convert a rating back to the skill level scale the generator balances on
+export function ratingToLevel(rating: number): number {
+  return DEFAULT_SKILL_LEVEL + (rating - INITIAL_RATING) / RATING_PER_LEVEL;
+}
+
+function expectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// Between 1 for a one-point margin and 2 for a blowout, growing slower the
+// bigger the margin gets
+function marginMultiplier(pointMargin: number): number {
+  const margin = Math.max(1, Math.abs(pointMargin));
+  return 1 + Math.min(1, Math.log(margin) / Math.log(BLOWOUT_MARGIN));
+}
+
+// Elo-style doubles ratings from the recorded results, replayed in the
+// order the matches finished. A team is rated as the average of its two
+// players; each player then moves by their own K factor, so newcomers
+// settle quickly without shaking the ratings of the regulars. Singles and
+// 2 vs 1 matches aren't rated.
+export function calculateRatings(players: Player[], matchStates: MatchState[]): Map<string, PlayerRating> {
+  const ratings = new Map<string, PlayerRating>();
+  players.forEach((player) => {
+    ratings.set(player.id, {
+      player,
+      rating: initialRating(player),
+      matchesRated: 0,
+      provisional: true,
+      history: [],
+    });
+  });
+
+  matchStates
+    .filter((ms) => ms.completed && ms.result && ms.match.players.length === 4)
+    .sort((a, b) => (a.completedAt ?? 0) - (b.completedAt ?? 0))
+    .forEach(({ match, result }) => {
+      if (!result) return;
+      const teams = getTeams(match).map((team) => team.map((player) => ratings.get(player.id)));
+      if (teams.some((team) => team.some((rating) => !rating))) return;
+
+      const teamRatings = teams.map(
+        (team) => team.reduce((sum, rating) => sum + (rating?.rating ?? 0), 0) / team.length
+      );
+      const pointMargin = result.games.reduce((sum, game) => sum + game.team1 - game.team2, 0);
+      const multiplier = marginMultiplier(pointMargin);
+
+      // Work out every change before applying any, so both teams are rated
+      // from the ratings they had going into the match
+      const changes = teams.flatMap((team, teamIndex) => {
+        const won = result.winner === (teamIndex === 0 ? 'team1' : 'team2') ? 1 : 0;
+        const expected = expectedScore(teamRatings[teamIndex], teamRatings[1 - teamIndex]);
+        return team.map((rating) => {
+          const kFactor = rating && rating.matchesRated < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+          return { rating, change: kFactor * multiplier * (won - expected) };
+        });
+      });
+
+      changes.forEach(({ rating, change }) => {
+        if (!rating) return;
+        rating.rating += change;
+        rating.matchesRated++;
+        rating.provisional = rating.matchesRated < PROVISIONAL_MATCHES;
+        rating.history.push({ matchId: match.id, rating: rating.rating, change });
+      });
+    });
+
+  return ratings;
+}
+
+// Ratings on the skill level scale, for balancing teams
+export function getRatingLevels(ratings: Map<string, PlayerRating>): Record<string, number> {
+  const levels: Record<string, number> = {};
+  ratings.forEach((rating, playerId) => {
+    levels[playerId] = ratingToLevel(rating.rating);
+  });
+  return levels;
+}
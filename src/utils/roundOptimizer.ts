@@ -0,0 +1,185 @@
+import { Player } from '../types';
+import { Random } from './random';
+
+export interface GroupingProblem {
+  // Players who must be on a court this round
+  required: Player[];
+  // Players of equal priority competing for the remaining places; whoever
+  // isn't placed sits out
+  optional: Player[];
+  // Number of players on each court, in court order
+  groupSizes: number[];
+  // Cost of putting this group of players on the court at this index. Must
+  // never be negative, the exact search prunes on partial totals.
+  groupCost: (group: Player[], groupIndex: number) => number;
+}
+
+// Above this many ways of filling the courts, fall back to local search
+const EXACT_SEARCH_LIMIT = 10000;
+const LOCAL_SEARCH_RESTARTS = 12;
+const EPSILON = 1e-9;
+
+function countGroupings(playerCount: number, groupSizes: number[]): number {
+  let count = 1;
+  let remaining = playerCount;
+  for (const size of groupSizes) {
+    // remaining choose size
+    let ways = 1;
+    for (let i = 0; i < size; i++) {
+      ways = (ways * (remaining - i)) / (i + 1);
+    }
+    count *= ways;
+    remaining -= size;
+    if (count > EXACT_SEARCH_LIMIT) break;
+  }
+  return count;
+}
+
+function createCostCache(groupCost: GroupingProblem['groupCost']) {
+  const cache = new Map<string, number>();
+  return (group: Player[], groupIndex: number): number => {
+    const key = `${groupIndex}|${group.map((player) => player.id).sort().join(',')}`;
+    let cost = cache.get(key);
+    if (cost === undefined) {
+      cost = groupCost(group, groupIndex);
+      cache.set(key, cost);
+    }
+    return cost;
+  };
+}
+
+// Try every way of filling the courts in order and keep the cheapest
+function exactSearch(
+  players: Player[],
+  groupSizes: number[],
+  costOf: (group: Player[], groupIndex: number) => number
+): Player[][] {
+  let best: Player[][] = [];
+  let bestCost = Infinity;
+
+  const search = (remaining: Player[], groups: Player[][], cost: number) => {
+    if (cost >= bestCost) return;
+    const groupIndex = groups.length;
+    if (groupIndex === groupSizes.length) {
+      best = groups;
+      bestCost = cost;
+      return;
+    }
+
+    const size = groupSizes[groupIndex];
+    const choose = (start: number, group: Player[]) => {
+      if (group.length === size) {
+        const rest = remaining.filter((player) => !group.includes(player));
+        search(rest, [...groups, group], cost + costOf(group, groupIndex));
+        return;
+      }
+      for (let i = start; i <= remaining.length - (size - group.length); i++) {
+        choose(i + 1, [...group, remaining[i]]);
+      }
+    };
+    choose(0, []);
+  };
+
+  search(players, [], 0);
+  return best;
+}
+
+// Hill climbing from a random start: swap players between courts, or an
+// optional player on a court with one sitting out, while that lowers the
+// total cost. Restarting a few times avoids most poor local minima.
+function localSearch(
+  problem: GroupingProblem,
+  costOf: (group: Player[], groupIndex: number) => number,
+  rng: Random
+): Player[][] {
+  const { required, optional, groupSizes } = problem;
+  const slots = groupSizes.reduce((sum, size) => sum + size, 0);
+  const optionalIds = new Set(optional.map((player) => player.id));
+  let best: Player[][] = [];
+  let bestCost = Infinity;
+
+  for (let restart = 0; restart < LOCAL_SEARCH_RESTARTS; restart++) {
+    const shuffledOptional = rng.shuffle(optional);
+    const placed = rng.shuffle([...required, ...shuffledOptional.slice(0, slots - required.length)]);
+    const bench = shuffledOptional.slice(slots - required.length);
+
+    const groups: Player[][] = [];
+    let offset = 0;
+    groupSizes.forEach((size) => {
+      groups.push(placed.slice(offset, offset + size));
+      offset += size;
+    });
+    const costs = groups.map((group, index) => costOf(group, index));
+
+    let improved = true;
+    while (improved) {
+      improved = false;
+
+      for (let g1 = 0; g1 < groups.length; g1++) {
+        for (let g2 = g1 + 1; g2 < groups.length; g2++) {
+          for (let i = 0; i < groups[g1].length; i++) {
+            for (let j = 0; j < groups[g2].length; j++) {
+              const group1 = [...groups[g1]];
+              const group2 = [...groups[g2]];
+              [group1[i], group2[j]] = [group2[j], group1[i]];
+              const cost1 = costOf(group1, g1);
+              const cost2 = costOf(group2, g2);
+              if (cost1 + cost2 < costs[g1] + costs[g2] - EPSILON) {
+                groups[g1] = group1;
+                groups[g2] = group2;
+                costs[g1] = cost1;
+                costs[g2] = cost2;
+                improved = true;
+              }
+            }
+          }
+        }
+      }
+
+      for (let b = 0; b < bench.length; b++) {
+        for (let g = 0; g < groups.length; g++) {
+          for (let i = 0; i < groups[g].length; i++) {
+            if (!optionalIds.has(groups[g][i].id)) continue;
+            const group = [...groups[g]];
+            [group[i], bench[b]] = [bench[b], group[i]];
+            const cost = costOf(group, g);
+            if (cost < costs[g] - EPSILON) {
+              groups[g] = group;
+              costs[g] = cost;
+              improved = true;
+            } else {
+              [group[i], bench[b]] = [bench[b], group[i]];
+            }
+          }
+        }
+      }
+    }
+
+    const total = costs.reduce((sum, cost) => sum + cost, 0);
+    if (total < bestCost - EPSILON) {
+      best = groups;
+      bestCost = total;
+    }
+  }
+
+  return best;
+}
+
+// Split players across all courts at once so that the total cost of the
+// round is as low as possible. Small rounds are solved exactly; larger ones
+// use local search so a phone still answers instantly with 20+ players.
+export function findBestGrouping(problem: GroupingProblem, rng: Random): Player[][] {
+  const { required, optional, groupSizes } = problem;
+  const slots = groupSizes.reduce((sum, size) => sum + size, 0);
+  if (required.length + optional.length < slots || required.length > slots) {
+    throw new Error('Grouping needs exactly enough players for every court');
+  }
+
+  const costOf = createCostCache(problem.groupCost);
+  const hasChoice = required.length + optional.length > slots;
+  if (!hasChoice && countGroupings(slots, groupSizes) <= EXACT_SEARCH_LIMIT) {
+    // Shuffling first means ties between equally good rounds fall randomly
+    return exactSearch(rng.shuffle([...required, ...optional]), groupSizes, costOf);
+  }
+  return localSearch(problem, costOf, rng);
+}
@@ -0,0 +1,34 @@
+import { validateGameScore } from './scoring';
+
+describe('validateGameScore', () => {
+  it.each([
+    [21, 19],
+    [22, 20],
+    [30, 29],
+    [30, 28],
+    [29, 27],
+    [21, 0],
+    [19, 21],
+  ])('accepts %i-%i', (team1, team2) => {
+    expect(() => validateGameScore({ team1, team2 })).not.toThrow();
+  });
+
+  it.each([
+    [30, 27],
+    [21, 20],
+    [23, 20],
+    [20, 18],
+    [31, 29],
+  ])('rejects %i-%i', (team1, team2) => {
+    expect(() => validateGameScore({ team1, team2 })).toThrow();
+  });
+
+  it.each([0, 20, 21, 29, 30])('rejects a level score of %i', (points) => {
+    expect(() => validateGameScore({ team1: points, team2: points })).toThrow(/level/);
+  });
+
+  it('rejects scores that are not whole numbers', () => {
+    expect(() => validateGameScore({ team1: 21.5, team2: 10 })).toThrow();
+    expect(() => validateGameScore({ team1: 21, team2: -1 })).toThrow();
+  });
+});
@@ -0,0 +1,158 @@
+import { Player, Match, MatchState, MatchResult, GameScore, PlayerStats, TeamSide } from '../types';
+
+const POINTS_TO_WIN = 21;
+const POINT_CAP = 30;
+export const MAX_GAMES = 3;
+
+// Split a match into its two teams. With an odd number of players the
+// first team is the smaller one, matching how the cards are rendered.
+export function getTeams(match: Match): [Player[], Player[]] {
+  const midPoint = Math.floor(match.players.length / 2);
+  return [match.players.slice(0, midPoint), match.players.slice(midPoint)];
+}
+
+export function getGameWinner(score: GameScore): TeamSide {
+  return score.team1 > score.team2 ? 'team1' : 'team2';
+}
+
+// Throws if the score is not a finished badminton game: first to 21, win by
+// two, and the side reaching 30 first wins regardless of the margin.
+export function validateGameScore(score: GameScore, gameNumber: number = 1): void {
+  const { team1, team2 } = score;
+  const label = `Game ${gameNumber}`;
+
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    throw new Error(`${label}: scores must be whole numbers of 0 or more`);
+  }
+
+  if (team1 === team2) {
+    throw new Error(`${label}: ${team1}-${team2} is level, a game always has a winner`);
+  }
+
+  const winning = Math.max(team1, team2);
+  const losing = Math.min(team1, team2);
+
+  if (winning > POINT_CAP) {
+    throw new Error(`${label}: a game cannot go beyond ${POINT_CAP} points`);
+  }
+  if (winning < POINTS_TO_WIN) {
+    throw new Error(`${label}: the winning side needs at least ${POINTS_TO_WIN} points`);
+  }
+  if (winning === POINTS_TO_WIN && losing > POINTS_TO_WIN - 2) {
+    throw new Error(`${label}: ${winning}-${losing} is not finished, a game must be won by two points`);
+  }
+  if (winning > POINTS_TO_WIN && winning < POINT_CAP && losing !== winning - 2) {
+    throw new Error(`${label}: after deuce the game ends as soon as one side leads by two`);
+  }
+  if (winning === POINT_CAP && losing < POINT_CAP - 2) {
+    throw new Error(`${label}: ${winning}-${losing} is not reachable, the game would have ended earlier`);
+  }
+}
+
+// Build a result from the entered games. A match is either a single game or
+// best of three; throws with a readable message if the games don't add up.
+export function createMatchResult(games: GameScore[]): MatchResult {
+  if (games.length === 0) {
+    throw new Error('Enter the score of at least one game');
+  }
+  if (games.length > MAX_GAMES) {
+    throw new Error(`A match has at most ${MAX_GAMES} games`);
+  }
+
+  games.forEach((game, index) => validateGameScore(game, index + 1));
+
+  const gamesWon = { team1: 0, team2: 0 };
+  games.forEach((game, index) => {
+    if (index > 0 && (gamesWon.team1 === 2 || gamesWon.team2 === 2)) {
+      throw new Error(`Game ${index + 1} was played after the match was already decided`);
+    }
+    gamesWon[getGameWinner(game)]++;
+  });
+
+  if (games.length === 2 && gamesWon.team1 === 1) {
+    throw new Error('Games are one-all, enter the deciding third game');
+  }
+
+  return {
+    games,
+    winner: gamesWon.team1 > gamesWon.team2 ? 'team1' : 'team2',
+  };
+}
+
+// Build a result from the points each team scored in an Americano or
+// Mexicano match. With a points total both teams must add up to it.
+export function createPointsResult(score: GameScore, pointsPerMatch: number | null): MatchResult {
+  const { team1, team2 } = score;
+  if (!Number.isInteger(team1) || !Number.isInteger(team2) || team1 < 0 || team2 < 0) {
+    throw new Error('Points must be whole numbers of 0 or more');
+  }
+  if (pointsPerMatch !== null && team1 + team2 !== pointsPerMatch) {
+    throw new Error(`The points must add up to ${pointsPerMatch}, not ${team1 + team2}`);
+  }
+  if (team1 === team2) {
+    throw new Error('A match can\'t end level, play one more point');
+  }
+  return { games: [score], winner: getGameWinner(score) };
+}
+
+// A result with only the winner, for when nobody kept the score
+export function createWinnerResult(winner: TeamSide): MatchResult {
+  return { games: [], winner };
+}
+
+export function formatResult(result: MatchResult): string {
+  return result.games.map((game) => `${game.team1}-${game.team2}`).join(', ');
+}
+
+export function calculatePlayerStats(
+  players: Player[],
+  matchStates: MatchState[]
+): PlayerStats[] {
+  const stats = new Map<string, PlayerStats>();
+  players.forEach((player) => {
+    stats.set(player.id, {
+      player,
+      doublesMatchesPlayed: 0,
+      singlesMatchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      pointDifferential: 0,
+    });
+  });
+
+  matchStates
+    .filter((ms) => ms.completed)
+    .forEach(({ match, result }) => {
+      const teams = getTeams(match);
+
+      teams.forEach((team, teamIndex) => {
+        const side: TeamSide = teamIndex === 0 ? 'team1' : 'team2';
+        const otherSide: TeamSide = side === 'team1' ? 'team2' : 'team1';
+
+        team.forEach((player) => {
+          const stat = stats.get(player.id);
+          if (!stat) return;
+
+          // A lone player (singles, or the single side of a 2 vs 1) plays singles
+          if (team.length > 1) {
+            stat.doublesMatchesPlayed++;
+          } else {
+            stat.singlesMatchesPlayed++;
+          }
+
+          if (result) {
+            if (result.winner === side) {
+              stat.wins++;
+            } else {
+              stat.losses++;
+            }
+            result.games.forEach((game) => {
+              stat.pointDifferential += game[side] - game[otherSide];
+            });
+          }
+        });
+      });
+    });
+
+  return Array.from(stats.values());
+}
@@ -0,0 +1,78 @@
+import { MatchResult, Player, SessionState } from '../types';
+import { applySessionAction, getRoundMatches, replaySession, startSession } from './sessionEngine';
+
+const WIN: MatchResult = { games: [{ team1: 21, team2: 15 }], winner: 'team1' };
+
+function makePlayers(count: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}` }));
+}
+
+function finishRound(state: SessionState): SessionState {
+  return getRoundMatches(state, state.currentRound).reduce(
+    (next, ms) =>
+      applySessionAction(next, { type: 'recordCompletion', matchId: ms.match.id, result: WIN, completedAt: 1000 }),
+    state
+  );
+}
+
+// A few rounds with a bit of everything: results, a late arrival, a break,
+// a swap and a refreshed round
+function playSession(seed: string): SessionState {
+  let state = startSession(makePlayers(9), 2, { seed });
+  state = applySessionAction(finishRound(state), { type: 'nextRound' });
+  state = applySessionAction(state, { type: 'addPlayer', player: { id: 'late', name: 'Late Arrival' } });
+  state = applySessionAction(finishRound(state), { type: 'nextRound' });
+  state = applySessionAction(state, { type: 'setPlayerStatus', playerId: 'p2', status: 'onBreak' });
+  state = applySessionAction(state, { type: 'refreshRound' });
+  const [a, b] = getRoundMatches(state, state.currentRound)[0].match.players;
+  state = applySessionAction(state, { type: 'swapPlayers', playerIds: [a.id, b.id] });
+  return applySessionAction(finishRound(state), { type: 'nextRound' });
+}
+
+describe('replaySession', () => {
+  it.each(['alpha', 'bravo', 'charlie'])('rebuilds the same session from its actions (seed %s)', (seed) => {
+    const state = playSession(seed);
+    const replayed = replaySession(state.session, state.actions);
+
+    expect(replayed.matchStates).toEqual(state.matchStates);
+    expect(replayed.benches).toEqual(state.benches);
+    expect(replayed.currentRound).toBe(state.currentRound);
+  });
+
+  it('gives every match its own id', () => {
+    const state = playSession('delta');
+    const ids = state.matchStates.map((ms) => ms.match.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+});
+
+describe('undo and redo', () => {
+  it('takes back a round and draws it again the same way', () => {
+    const before = finishRound(startSession(makePlayers(10), 2, { seed: 'echo' }));
+    const drawn = applySessionAction(before, { type: 'nextRound' });
+    const undone = applySessionAction(drawn, { type: 'undo' });
+    const redone = applySessionAction(undone, { type: 'redo' });
+
+    expect(undone.matchStates).toEqual(before.matchStates);
+    expect(undone.currentRound).toBe(before.currentRound);
+    expect(redone.matchStates).toEqual(drawn.matchStates);
+    expect(replaySession(redone.session, redone.actions).matchStates).toEqual(redone.matchStates);
+  });
+
+  it('takes back a result', () => {
+    const state = startSession(makePlayers(8), 2, { seed: 'foxtrot' });
+    const matchId = state.matchStates[0].match.id;
+    const recorded = applySessionAction(state, { type: 'recordCompletion', matchId, result: WIN, completedAt: 1000 });
+    const undone = applySessionAction(recorded, { type: 'undo' });
+
+    expect(undone.matchStates).toEqual(state.matchStates);
+    expect(applySessionAction(undone, { type: 'redo' }).matchStates).toEqual(recorded.matchStates);
+  });
+
+  it('does not record an undo with nothing to take back', () => {
+    const state = startSession(makePlayers(8), 2, { seed: 'golf' });
+
+    expect(applySessionAction(state, { type: 'undo' })).toBe(state);
+  });
+});
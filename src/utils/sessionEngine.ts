@@ -0,0 +1,965 @@
+import {
+  Player,
+  Match,
+  MatchResult,
+  MatchState,
+  LeftoverFormat,
+  MixedFallback,
+  PairingRule,
+  PairingWeights,
+  PlayerStatus,
+  ScheduleMode,
+  Session,
+  SessionAction,
+  SessionFormat,
+  SessionState,
+  SessionStep,
+  TeamMode,
+  TimerStart,
+  TournamentSettings,
+} from '../types';
+import {
+  DEFAULT_LEFTOVER_FORMAT,
+  DEFAULT_MIXED_FALLBACK,
+  DEFAULT_PAIRING_WEIGHTS,
+  DEFAULT_TEAM_MODE,
+  generateRound,
+  minPlayersForCourt,
+} from './matchGenerator';
+import { createSeed, deriveRandom, normalizeSeed, Random } from './random';
+import { findGroupBreaks, findSplitBreaks, validatePairingRules } from './pairingRules';
+import { getTeams } from './scoring';
+import { calculateRatings, getRatingLevels } from './ratings';
+import {
+  calculateRestStats,
+  comparePriorityKeys,
+  findProtectedPlayers,
+  getBench,
+  playPriorityKey,
+  setBench,
+} from './sitOuts';
+import {
+  calculateStandings,
+  pairByStandings,
+  scoresIndividualPoints,
+  SESSION_FORMAT_LABELS,
+} from './socialFormats';
+import { getLadderOrder, splitPartners } from './ladder';
+import { Fixture, getChampion, getOpenFixtures, validateTournament } from './tournament';
+
+export interface SessionOptions {
+  seed?: string;
+  pairingWeights?: PairingWeights;
+  leftoverFormats?: LeftoverFormat[];
+  teamMode?: TeamMode;
+  scheduleMode?: ScheduleMode;
+  gameLengthMinutes?: number | null;
+  timerStart?: TimerStart;
+  bookingEndsAt?: number | null;
+  mixedDoubles?: boolean;
+  mixedFallback?: MixedFallback;
+  pairingRules?: PairingRule[];
+  format?: SessionFormat;
+  pointsPerMatch?: number | null;
+  // Rounds drawn up front, played in order instead of drawing each round
+  plannedRounds?: Match[][];
+  tournament?: TournamentSettings | null;
+}
+
+export interface SessionEngine {
+  readonly state: SessionState;
+  nextRound(): SessionState;
+  refreshRound(): SessionState;
+  redrawRound(): SessionState;
+  swapPlayers(playerA: string, playerB: string): SessionState;
+  startMatch(matchId: string): SessionState;
+  recordCompletion(matchId: string, result: MatchResult): SessionState;
+  undo(): SessionState;
+  redo(): SessionState;
+  addPlayer(name: string): SessionState;
+  setPlayerStatus(playerId: string, status: PlayerStatus): SessionState;
+}
+
+function courtNumbers(numberOfCourts: number): number[] {
+  return Array.from({ length: numberOfCourts }, (_, i) => i + 1);
+}
+
+export function getCompletedMatches(state: SessionState): Match[] {
+  return state.matchStates.filter((ms) => ms.completed).map((ms) => ms.match);
+}
+
+export function getRoundMatches(state: SessionState, round: number): MatchState[] {
+  return state.matchStates.filter((ms) => ms.round === round);
+}
+
+export function getPlayerStatus(session: Session, playerId: string): PlayerStatus {
+  return session.playerStatus[playerId] ?? 'active';
+}
+
+// Players who can be put on a court in the next draw
+export function getAvailablePlayers(session: Session): Player[] {
+  return session.players.filter((player) => getPlayerStatus(session, player.id) === 'active');
+}
+
+export function getPendingMatches(state: SessionState): MatchState[] {
+  return state.matchStates.filter((ms) => !ms.completed);
+}
+
+// Pending matches with someone who is no longer available
+export function getBlockedMatches(state: SessionState): MatchState[] {
+  const { session } = state;
+  return getPendingMatches(state).filter(
+    (ms) => ms.match.players.some((player) => getPlayerStatus(session, player.id) !== 'active')
+  );
+}
+
+// Available players not on a court right now
+export function getWaitingPlayers(state: SessionState): Player[] {
+  const busyIds = new Set(
+    getPendingMatches(state).flatMap((ms) => ms.match.players.map((player) => player.id))
+  );
+  return getAvailablePlayers(state.session).filter((player) => !busyIds.has(player.id));
+}
+
+interface History {
+  // Actions before the first step, such as the first round's timers
+  base: SessionStep[];
+  // Steps in effect, oldest first
+  done: SessionStep[][];
+  // Steps taken back that can be redone, the next one to redo last
+  undone: SessionStep[][];
+}
+
+// Undo and redo work on steps: one action, plus the timers it started when
+// timers start as soon as matches are drawn
+function resolveHistory(session: Session, actions: SessionAction[]): History {
+  const base: SessionStep[] = [];
+  const done: SessionStep[][] = [];
+  let undone: SessionStep[][] = [];
+  for (const action of actions) {
+    if (action.type === 'undo') {
+      const step = done.pop();
+      if (step) undone.push(step);
+    } else if (action.type === 'redo') {
+      const step = undone.pop();
+      if (step) done.push(step);
+    } else if (action.type === 'startMatch' && session.timerStart === 'onDraw') {
+      (done[done.length - 1] ?? base).push(action);
+    } else {
+      done.push([action]);
+      undone = [];
+    }
+  }
+  return { base, done, undone };
+}
+
+// The actions that shaped the current state, leaving out undone steps
+function getEffectiveActions(state: SessionState): SessionStep[] {
+  const { base, done } = resolveHistory(state.session, state.actions);
+  return [...base, ...done.flat()];
+}
+
+// Players off court who can be swapped into a match: those waiting for a
+// court in a rolling session, or sitting out the current round
+export function getSittingOutIds(state: SessionState): string[] {
+  return state.session.scheduleMode === 'rolling'
+    ? getWaitingPlayers(state).map((player) => player.id)
+    : getBench(state.benches, state.currentRound);
+}
+
+// Every draw gets its own random stream derived from the session seed and
+// the number of draws in effect, so replaying the actions, or redoing an
+// undone draw, repeats each draw. The first round has a stream of its own.
+function drawRandom(state: SessionState): Random {
+  const draws = getEffectiveActions(state).filter(
+    (action) => action.type === 'nextRound' || action.type === 'refreshRound' || action.type === 'redrawRound'
+  ).length;
+  return deriveRandom(state.session.seed, 'draw', draws);
+}
+
+// A rolling draw for one court, distinct for every action and court
+function rollingRandom(state: SessionState, court: number): Random {
+  return deriveRandom(state.session.seed, 'rolling', getEffectiveActions(state).length, court);
+}
+
+// Draw matches for some courts of a round from the given players
+function drawMatches(
+  state: SessionState,
+  players: Player[],
+  courts: number[],
+  round: number,
+  { isRandomRefresh = false, rng = drawRandom(state) }: { isRandomRefresh?: boolean; rng?: Random } = {}
+): Match[] {
+  const { session } = state;
+  if (session.tournament) {
+    return drawFixtures(state, session.tournament, players, courts, round, rng);
+  }
+  if (session.format === 'mexicano' && round > 1) {
+    return drawByStandings(state, players, courts, round, rng);
+  }
+  if (session.format === 'kingOfTheCourt' && round > 1) {
+    return drawByLadder(state, players, courts, round, rng);
+  }
+  const playerIds = new Set(players.map((player) => player.id));
+  return generateRound(players, courts, getCompletedMatches(state), rng, {
+    weights: session.pairingWeights,
+    leftoverFormats: courts.map((court) => session.leftoverFormats[court - 1] ?? DEFAULT_LEFTOVER_FORMAT),
+    // Only the players in the draw, so someone who left doesn't count as
+    // a player who hasn't rested yet
+    restStats: calculateRestStats(players, state.matchStates, state.benches, round - 1),
+    gameCredits: session.gameCredits,
+    teamMode: session.teamMode,
+    strengths: getRatingLevels(calculateRatings(session.players, state.matchStates)),
+    // A rule only applies while both of its players are in the draw
+    rules: session.pairingRules.filter((rule) => rule.playerIds.every((id) => playerIds.has(id))),
+    mixedDoubles: session.mixedDoubles,
+    mixedFallback: session.mixedFallback,
+    isRandomRefresh,
+  });
+}
+
+// Games each player has finished plus any games credited to them, the count
+// every draw uses to decide who is due a game
+export function getCountedGames(state: SessionState): Map<string, number> {
+  const counts = new Map(Object.entries(state.session.gameCredits));
+  getCompletedMatches(state).forEach((match) => {
+    match.players.forEach((player) => {
+      counts.set(player.id, (counts.get(player.id) ?? 0) + 1);
+    });
+  });
+  return counts;
+}
+
+// Players in the order they are due a game, fairly as in any draw: anyone
+// who must not rest again, then fewest games, most rests and longest wait.
+// Ties are broken at random.
+function rankByPlayPriority(state: SessionState, players: Player[], round: number, rng: Random): Player[] {
+  const countedGames = getCountedGames(state);
+  const restStats = calculateRestStats(players, state.matchStates, state.benches, round - 1);
+  const protectedIds = findProtectedPlayers(restStats);
+  return rng
+    .shuffle(players)
+    .map((player) => ({
+      player,
+      key: playPriorityKey(
+        restStats.get(player.id),
+        countedGames.get(player.id) ?? 0,
+        protectedIds.has(player.id)
+      ),
+    }))
+    .sort((a, b) => comparePriorityKeys(a.key, b.key))
+    .map((entry) => entry.player);
+}
+
+// Places on court when every used court needs four players
+function doublesPlaces(session: Session, players: Player[], courts: number[]): number {
+  const places = Math.min(courts.length, Math.floor(players.length / 4)) * 4;
+  if (places === 0) {
+    throw new Error(`Not enough players available. ${SESSION_FORMAT_LABELS[session.format]} needs at least 4 players.`);
+  }
+  return places;
+}
+
+function withBrokenRules(session: Session, match: Match): Match {
+  const brokenRuleIds = findBrokenRules(session, match);
+  return brokenRuleIds.length > 0 ? { ...match, brokenRuleIds } : match;
+}
+
+// Mexicano rounds after the first: whoever is due a game goes on court by
+// their standings
+function drawByStandings(
+  state: SessionState,
+  players: Player[],
+  courts: number[],
+  round: number,
+  rng: Random
+): Match[] {
+  const due = rankByPlayPriority(state, players, round, rng).slice(0, doublesPlaces(state.session, players, courts));
+  // Shuffled again so ties in the standings fall at random
+  const ranked = calculateStandings(rng.shuffle(due), state.matchStates).map((standing) => standing.player);
+  return pairByStandings(ranked, courts, rng).map((match) => withBrokenRules(state.session, match));
+}
+
+// King of the court rounds after the first: winners move up a court and
+// losers down, and players waiting take the place of the bottom court's
+// losers
+function drawByLadder(
+  state: SessionState,
+  players: Player[],
+  courts: number[],
+  round: number,
+  rng: Random
+): Match[] {
+  const { session } = state;
+  const places = doublesPlaces(session, players, courts);
+  const byId = new Map(players.map((player) => [player.id, player]));
+  const ladder = getLadderOrder(getRoundMatches(state, round - 1), courtNumbers(session.numberOfCourts))
+    .flat()
+    .flatMap((player) => byId.get(player.id) ?? []);
+  const ladderIds = new Set(ladder.map((player) => player.id));
+  const waiting = rankByPlayPriority(state, players.filter((player) => !ladderIds.has(player.id)), round, rng);
+  const lineUp = [...ladder, ...waiting].slice(0, places);
+
+  return courts.slice(0, places / 4).map((court, index) => withBrokenRules(session, {
+    id: rng.id(),
+    players: splitPartners(lineUp.slice(index * 4, index * 4 + 4)) as Match['players'],
+    court,
+    side: rng.next() < 0.5 ? 'left' : 'right',
+  }));
+}
+
+// Tournament rounds: the fixtures ready to be played go on court in order,
+// skipping any with a team already on court or a player who is away. Each
+// match is named after its fixture and round, so no two share an id.
+function drawFixtures(
+  state: SessionState,
+  tournament: TournamentSettings,
+  players: Player[],
+  courts: number[],
+  round: number,
+  rng: Random
+): Match[] {
+  const { session } = state;
+  const availableIds = new Set(players.map((player) => player.id));
+  const busyIds = new Set<string>();
+  const fixtures: Fixture[] = [];
+  for (const fixture of getOpenFixtures(tournament, state.matchStates)) {
+    const ids = fixture.teams.flatMap((team) => team.playerIds);
+    if (fixtures.length < courts.length && ids.every((id) => availableIds.has(id) && !busyIds.has(id))) {
+      fixtures.push(fixture);
+      ids.forEach((id) => busyIds.add(id));
+    }
+  }
+  if (fixtures.length === 0) {
+    throw new Error(
+      getChampion(tournament, state.matchStates)
+        ? 'The tournament is over'
+        : 'No tournament match is ready: the teams still to play are missing a player'
+    );
+  }
+
+  const playerById = new Map(session.players.map((player) => [player.id, player]));
+  return fixtures.map((fixture, index) => ({
+    id: `${fixture.id}-round-${round}`,
+    players: fixture.teams.flatMap((team) => team.playerIds.flatMap((id) => playerById.get(id) ?? [])) as Match['players'],
+    court: courts[index],
+    side: rng.next() < 0.5 ? 'left' : 'right',
+    fixtureId: fixture.id,
+  }));
+}
+
+// The next round of the planned rounds, while it still fits the players
+// available. After someone joins or leaves, the rest is drawn as it goes.
+function getPlannedRound(session: Session, round: number): Match[] | null {
+  const planned = session.plannedRounds[round - 1];
+  if (!planned) return null;
+  const availableIds = getAvailablePlayers(session).map((player) => player.id);
+  const plannedIds = new Set(
+    session.plannedRounds.flat().flatMap((match) => match.players.map((player) => player.id))
+  );
+  const fits =
+    planned.every((match) => match.players.every((player) => availableIds.includes(player.id))) &&
+    availableIds.every((id) => plannedIds.has(id));
+  return fits ? planned : null;
+}
+
+// Whether an Americano has played the last round of its rotation, or a
+// tournament has played its final
+export function isFinalRound(state: SessionState): boolean {
+  const { session, currentRound } = state;
+  if (session.tournament) return getChampion(session.tournament, state.matchStates) !== null;
+  return session.format === 'americano' && currentRound >= session.plannedRounds.length;
+}
+
+// Results are recorded by match id, so a drawn match whose id is already
+// taken gets a numbered one instead
+function withUniqueIds(existing: Match[], matches: Match[]): Match[] {
+  const usedIds = new Set(existing.map((match) => match.id));
+  return matches.map((match) => {
+    let id = match.id;
+    for (let n = 2; usedIds.has(id); n++) {
+      id = `${match.id}-${n}`;
+    }
+    usedIds.add(id);
+    return id === match.id ? match : { ...match, id };
+  });
+}
+
+// Add matches to a round and record every available player not on a court
+// as sitting out. In a rolling session that leaves out players still busy
+// with a match from an earlier draw.
+function addRoundMatches(
+  state: SessionState,
+  drawn: Match[],
+  round: number
+): SessionState {
+  const matches = withUniqueIds(state.session.matches, drawn);
+  const matchStates = [
+    ...state.matchStates,
+    ...matches.map((match) => ({ match, completed: false, round })),
+  ];
+  const playing = new Set(
+    matchStates
+      .filter((ms) => ms.round === round || !ms.completed)
+      .flatMap((ms) => ms.match.players.map((player) => player.id))
+  );
+
+  return {
+    ...state,
+    session: {
+      ...state.session,
+      matches: [...state.session.matches, ...matches],
+    },
+    matchStates,
+    benches: setBench(
+      state.benches,
+      round,
+      getAvailablePlayers(state.session).map((player) => player.id).filter((id) => !playing.has(id))
+    ),
+  };
+}
+
+function nextRound(state: SessionState): SessionState {
+  const { session, currentRound } = state;
+  if (session.scheduleMode === 'rolling') {
+    throw new Error('In a rolling session each court gets its next match as soon as it finishes');
+  }
+  const roundMatches = getRoundMatches(state, currentRound);
+  if (!roundMatches.every((ms) => ms.completed)) {
+    throw new Error(`Finish every match in round ${currentRound} before starting the next one`);
+  }
+  if (isFinalRound(state)) {
+    throw new Error(
+      session.tournament
+        ? 'The final has been played, the tournament is over'
+        : 'That was the last round of the Americano, see the final standings'
+    );
+  }
+
+  const matches = getPlannedRound(session, currentRound + 1) ?? drawMatches(
+    state,
+    getAvailablePlayers(session),
+    courtNumbers(session.numberOfCourts),
+    currentRound + 1
+  );
+  return {
+    ...addRoundMatches(state, matches, currentRound + 1),
+    currentRound: currentRound + 1,
+  };
+}
+
+// Redraw the matches still to be played this round on every court without a
+// finished match; anyone who already finished a match this round stays out of
+// the new draw. A random refresh only rerolls the pending matches, a plain
+// redraw is optimised as usual and can also fill courts left empty before
+// players joined.
+function redrawRound(state: SessionState, isRandomRefresh: boolean): SessionState {
+  const { session, currentRound } = state;
+  if (session.scheduleMode === 'rolling') {
+    return isRandomRefresh ? state : refillCourts(state);
+  }
+  const roundMatches = getRoundMatches(state, currentRound);
+  const completed = roundMatches.filter((ms) => ms.completed);
+  const pending = roundMatches.filter((ms) => !ms.completed);
+  if (isRandomRefresh && pending.length === 0) return state;
+
+  const finishedCourts = new Set(completed.map((ms) => ms.match.court));
+  const courts = isRandomRefresh
+    ? pending.map((ms) => ms.match.court)
+    : courtNumbers(session.numberOfCourts).filter((court) => !finishedCourts.has(court));
+  if (courts.length === 0) return state;
+
+  const busyPlayerIds = new Set(
+    completed.flatMap((ms) => ms.match.players.map((player) => player.id))
+  );
+  const pendingIds = new Set(pending.map((ms) => ms.match.id));
+  const matches = drawMatches(
+    state,
+    getAvailablePlayers(session).filter((player) => !busyPlayerIds.has(player.id)),
+    courts,
+    currentRound,
+    { isRandomRefresh }
+  );
+
+  const withoutPending: SessionState = {
+    ...state,
+    session: {
+      ...session,
+      matches: session.matches.filter((match) => !pendingIds.has(match.id)),
+    },
+    matchStates: state.matchStates.filter((ms) => !pendingIds.has(ms.match.id)),
+  };
+  return addRoundMatches(withoutPending, matches, currentRound);
+}
+
+// Draw the next match for a free court of a rolling session from the
+// players waiting. Every rolling draw is a round of its own, so sit-outs are
+// counted per draw. Leaves the court empty if too few players are waiting.
+function drawForCourt(state: SessionState, court: number): SessionState {
+  const { session } = state;
+  const waiting = getWaitingPlayers(state);
+  const format = session.leftoverFormats[court - 1] ?? DEFAULT_LEFTOVER_FORMAT;
+  if (waiting.length < minPlayersForCourt(format)) return state;
+
+  const round = state.currentRound + 1;
+  const matches = drawMatches(state, waiting, [court], round, { rng: rollingRandom(state, court) });
+  return { ...addRoundMatches(state, matches, round), currentRound: round };
+}
+
+// Rolling redraw after the roster changed: drop pending matches with someone
+// who is no longer available, then draw for every free court
+function refillCourts(state: SessionState): SessionState {
+  const { session } = state;
+  const blockedIds = new Set(getBlockedMatches(state).map((ms) => ms.match.id));
+  const withoutBlocked: SessionState = {
+    ...state,
+    session: {
+      ...session,
+      matches: session.matches.filter((match) => !blockedIds.has(match.id)),
+    },
+    matchStates: state.matchStates.filter((ms) => !blockedIds.has(ms.match.id)),
+  };
+
+  return courtNumbers(session.numberOfCourts).reduce(
+    (current, court) =>
+      getPendingMatches(current).some((ms) => ms.match.court === court) ? current : drawForCourt(current, court),
+    withoutBlocked
+  );
+}
+
+// Rules an edited match breaks, counting only rules whose players are both
+// still available
+function findBrokenRules(session: Session, match: Match): string[] {
+  const availableIds = new Set(getAvailablePlayers(session).map((player) => player.id));
+  const rules = session.pairingRules.filter((rule) => rule.playerIds.every((id) => availableIds.has(id)));
+  return [...findGroupBreaks([...match.players], rules), ...findSplitBreaks(getTeams(match), rules)].map(
+    (rule) => rule.id
+  );
+}
+
+// Swap two players by hand: within or across matches still to be played,
+// or between such a match and the bench. The edited matches are what get
+// completed, so the pairing history follows the swap.
+function swapPlayers(state: SessionState, playerA: string, playerB: string): SessionState {
+  if (playerA === playerB) return state;
+  const { session } = state;
+  if (session.tournament) {
+    throw new Error("Tournament teams are fixed, so players can't be swapped");
+  }
+  const pending = getPendingMatches(state);
+  const sittingOut = getSittingOutIds(state);
+  const findMatch = (playerId: string) =>
+    pending.find((ms) => ms.match.players.some((player) => player.id === playerId));
+
+  const placeOf = (playerId: string) => {
+    const matchState = findMatch(playerId);
+    if (!matchState && !sittingOut.includes(playerId)) {
+      const name = session.players.find((player) => player.id === playerId)?.name ?? 'That player';
+      throw new Error(`${name} isn't in a match still to be played or sitting out`);
+    }
+    return matchState;
+  };
+  const matchA = placeOf(playerA);
+  const matchB = placeOf(playerB);
+  const edited = matchA ?? matchB;
+  if (!edited) {
+    throw new Error('Pick at least one player from a match still to be played');
+  }
+
+  const playerById = new Map(session.players.map((player) => [player.id, player]));
+  const swapIds = new Map([[playerA, playerB], [playerB, playerA]]);
+  const swapped = (match: Match): Match => {
+    const players = match.players.map(
+      (player) => playerById.get(swapIds.get(player.id) ?? '') ?? player
+    ) as Match['players'];
+    const updated: Match = { id: match.id, players, court: match.court, side: match.side };
+    const brokenRuleIds = findBrokenRules(session, updated);
+    return brokenRuleIds.length > 0 ? { ...updated, brokenRuleIds } : updated;
+  };
+  const editedIds = new Set([matchA?.match.id, matchB?.match.id]);
+
+  // Whoever comes off court takes the benched player's place on the bench
+  const benched = !matchA ? playerA : !matchB ? playerB : null;
+  const onCourt = benched === playerA ? playerB : playerA;
+  const bench = getBench(state.benches, edited.round);
+  const benches = benched
+    ? setBench(
+      state.benches,
+      edited.round,
+      bench.includes(benched) ? bench.map((id) => (id === benched ? onCourt : id)) : [...bench, onCourt]
+    )
+    : state.benches;
+
+  return {
+    ...state,
+    session: {
+      ...session,
+      matches: session.matches.map((match) => (editedIds.has(match.id) ? swapped(match) : match)),
+    },
+    matchStates: state.matchStates.map((ms) => (editedIds.has(ms.match.id) ? { ...ms, match: swapped(ms.match) } : ms)),
+    benches,
+  };
+}
+
+function startMatch(state: SessionState, matchId: string, startedAt: number): SessionState {
+  const matchState = state.matchStates.find((ms) => ms.match.id === matchId);
+  if (!matchState) {
+    throw new Error('Match not found in this session');
+  }
+  if (matchState.startedAt !== undefined || matchState.completed) return state;
+
+  return {
+    ...state,
+    matchStates: state.matchStates.map((ms) => (ms.match.id === matchId ? { ...ms, startedAt } : ms)),
+  };
+}
+
+function recordCompletion(
+  state: SessionState,
+  matchId: string,
+  result: MatchResult,
+  completedAt: number
+): SessionState {
+  const matchState = state.matchStates.find((ms) => ms.match.id === matchId);
+  if (!matchState) {
+    throw new Error('Match not found in this session');
+  }
+
+  const updated: SessionState = {
+    ...state,
+    matchStates: state.matchStates.map((ms) =>
+      ms.match.id === matchId
+        ? { ...ms, completed: true, completedAt: ms.completedAt ?? completedAt, result }
+        : ms
+    ),
+  };
+
+  // A rolling session puts the next match on the court straight away
+  return state.session.scheduleMode === 'rolling' && !matchState.completed
+    ? drawForCourt(updated, matchState.match.court)
+    : updated;
+}
+
+// Rebuild the session from its setup with only the given actions in effect
+function rebuild(state: SessionState, actions: SessionAction[]): SessionState {
+  const { session } = state;
+  const joinedIds = new Set(
+    state.actions.flatMap((action) => (action.type === 'addPlayer' ? [action.player.id] : []))
+  );
+  return replaySession(
+    { ...session, players: session.players.filter((player) => !joinedIds.has(player.id)) },
+    actions
+  );
+}
+
+// Take back the last step by replaying everything before it, so matches,
+// benches, stats and the pairing history all go back together
+function undo(state: SessionState): SessionState {
+  if (!state.replayable) return state;
+  const { base, done } = resolveHistory(state.session, state.actions);
+  if (done.length === 0) return state;
+  return rebuild(state, [...base, ...done.slice(0, -1).flat()]);
+}
+
+// Apply the last undone step again. Draws take their randomness from the
+// steps in effect, so a redone draw comes out as it did the first time.
+function redo(state: SessionState): SessionState {
+  if (!state.replayable) return state;
+  const { undone } = resolveHistory(state.session, state.actions);
+  const step = undone[undone.length - 1];
+  return step ? step.reduce(applyAction, state) : state;
+}
+
+// Credit a player (re)joining the rotation with enough games to draw level
+// with the least played active player. They get picked soon without being
+// owed every game they missed.
+function creditJoiningPlayer(state: SessionState, playerId: string): SessionState {
+  const { session } = state;
+  const gamesPlayed = getCountedGames(state);
+  const countedGames = (id: string) => gamesPlayed.get(id) ?? 0;
+
+  const others = getAvailablePlayers(session).filter((player) => player.id !== playerId);
+  if (others.length === 0) return state;
+
+  const missing = Math.min(...others.map((player) => countedGames(player.id))) - countedGames(playerId);
+  if (missing <= 0) return state;
+
+  return {
+    ...state,
+    session: {
+      ...session,
+      gameCredits: { ...session.gameCredits, [playerId]: (session.gameCredits[playerId] ?? 0) + missing },
+    },
+  };
+}
+
+function addPlayer(state: SessionState, player: Player): SessionState {
+  const { session } = state;
+  if (session.tournament) {
+    throw new Error("Players can't join a tournament once it has started");
+  }
+  if (session.players.some((p) => p.id === player.id || p.name.toLowerCase() === player.name.toLowerCase())) {
+    throw new Error(`${player.name} is already in this session`);
+  }
+
+  return creditJoiningPlayer(
+    { ...state, session: { ...session, players: [...session.players, player] } },
+    player.id
+  );
+}
+
+function setPlayerStatus(state: SessionState, playerId: string, status: PlayerStatus): SessionState {
+  const { session, currentRound } = state;
+  if (!session.players.some((player) => player.id === playerId)) {
+    throw new Error('Player not found in this session');
+  }
+  if (getPlayerStatus(session, playerId) === status) return state;
+
+  const updated: SessionState = {
+    ...state,
+    session: {
+      ...session,
+      playerStatus: { ...session.playerStatus, [playerId]: status },
+    },
+  };
+  if (status === 'active') {
+    return creditJoiningPlayer(updated, playerId);
+  }
+
+  // Someone who stopped playing isn't sitting out the current round
+  return {
+    ...updated,
+    benches: setBench(
+      state.benches,
+      currentRound,
+      getBench(state.benches, currentRound).filter((id) => id !== playerId)
+    ),
+  };
+}
+
+// Apply an action without recording it
+function applyAction(state: SessionState, action: SessionAction): SessionState {
+  switch (action.type) {
+    case 'nextRound':
+      return nextRound(state);
+    case 'refreshRound':
+      return redrawRound(state, true);
+    case 'redrawRound':
+      return redrawRound(state, false);
+    case 'swapPlayers':
+      return swapPlayers(state, action.playerIds[0], action.playerIds[1]);
+    case 'startMatch':
+      return startMatch(state, action.matchId, action.startedAt);
+    case 'recordCompletion':
+      return recordCompletion(state, action.matchId, action.result, action.completedAt);
+    case 'undo':
+      return undo(state);
+    case 'redo':
+      return redo(state);
+    case 'addPlayer':
+      return addPlayer(state, action.player);
+    case 'setPlayerStatus':
+      return setPlayerStatus(state, action.playerId, action.status);
+  }
+}
+
+// Apply one action and record it. Actions that change nothing (e.g. undo
+// with an empty stack) are not recorded.
+export function applySessionAction(state: SessionState, action: SessionAction): SessionState {
+  const next = applyAction(state, action);
+  return next === state ? state : { ...next, actions: [...state.actions, action] };
+}
+
+// The first action of the step undo would take back, or null if there is
+// nothing to undo
+export function getUndoStep(state: SessionState): SessionStep | null {
+  if (!state.replayable) return null;
+  const { done } = resolveHistory(state.session, state.actions);
+  return done[done.length - 1]?.[0] ?? null;
+}
+
+export function getRedoStep(state: SessionState): SessionStep | null {
+  if (!state.replayable) return null;
+  const { undone } = resolveHistory(state.session, state.actions);
+  return undone[undone.length - 1]?.[0] ?? null;
+}
+
+export function startSession(
+  players: Player[],
+  numberOfCourts: number,
+  options: SessionOptions = {}
+): SessionState {
+  if (players.length < 4) {
+    throw new Error('Need at least 4 players to generate matches');
+  }
+  validatePairingRules(options.pairingRules ?? [], players);
+  const format = options.format ?? 'freePlay';
+  if (format === 'americano' && !options.plannedRounds?.length) {
+    throw new Error('Plan the Americano rotation before starting it');
+  }
+  // Results are recorded by match id, so a plan must not reuse one
+  const plannedIds = (options.plannedRounds ?? []).flat().map((match) => match.id);
+  if (new Set(plannedIds).size < plannedIds.length) {
+    throw new Error('The planned rounds repeat a match id, plan the session again');
+  }
+  const tournament = format === 'tournament' ? options.tournament ?? null : null;
+  if (format === 'tournament') {
+    if (!tournament) {
+      throw new Error('Enter the tournament teams before starting it');
+    }
+    validateTournament(tournament, players);
+  }
+  // Every format but free play is doubles played in rounds
+  const isFreePlay = format === 'freePlay';
+
+  const session: Session = {
+    players,
+    numberOfCourts,
+    matches: [],
+    seed: normalizeSeed(options.seed ?? createSeed()),
+    pairingWeights: options.pairingWeights ?? DEFAULT_PAIRING_WEIGHTS,
+    leftoverFormats: isFreePlay
+      ? options.leftoverFormats ?? courtNumbers(numberOfCourts).map(() => DEFAULT_LEFTOVER_FORMAT)
+      : courtNumbers(numberOfCourts).map(() => 'sitOut'),
+    teamMode: options.teamMode ?? DEFAULT_TEAM_MODE,
+    scheduleMode: isFreePlay ? options.scheduleMode ?? 'rounds' : 'rounds',
+    gameLengthMinutes: options.gameLengthMinutes ?? null,
+    timerStart: options.timerStart ?? 'onTap',
+    bookingEndsAt: options.bookingEndsAt ?? null,
+    mixedDoubles: options.mixedDoubles ?? false,
+    mixedFallback: options.mixedFallback ?? DEFAULT_MIXED_FALLBACK,
+    pairingRules: options.pairingRules ?? [],
+    format,
+    pointsPerMatch: scoresIndividualPoints(format) ? options.pointsPerMatch ?? null : null,
+    plannedRounds: options.plannedRounds ?? [],
+    tournament,
+    playerStatus: {},
+    gameCredits: {},
+  };
+  const initialState: SessionState = {
+    session,
+    matchStates: [],
+    currentRound: 1,
+    benches: [],
+    actions: [],
+    replayable: true,
+  };
+  const matches = session.plannedRounds[0] ?? drawMatches(
+    initialState,
+    players,
+    courtNumbers(numberOfCourts),
+    1,
+    { rng: deriveRandom(session.seed, 'first') }
+  );
+  return addRoundMatches(initialState, matches, 1);
+}
+
+// Rebuild a session exactly from its setup, seed and recorded actions.
+// Players who joined later are left out of the starting roster; their
+// addPlayer actions bring them in again at the same point.
+export function replaySession(session: Session, actions: SessionAction[]): SessionState {
+  const {
+    players,
+    numberOfCourts,
+    seed,
+    pairingWeights,
+    leftoverFormats,
+    teamMode,
+    scheduleMode,
+    gameLengthMinutes,
+    timerStart,
+    bookingEndsAt,
+    mixedDoubles,
+    mixedFallback,
+    pairingRules,
+    format,
+    pointsPerMatch,
+    plannedRounds,
+    tournament,
+  } = session;
+  const joinedIds = new Set(
+    actions.flatMap((action) => (action.type === 'addPlayer' ? [action.player.id] : []))
+  );
+  return actions.reduce(
+    applySessionAction,
+    startSession(
+      players.filter((player) => !joinedIds.has(player.id)),
+      numberOfCourts,
+      {
+        seed,
+        pairingWeights,
+        leftoverFormats,
+        teamMode,
+        scheduleMode,
+        gameLengthMinutes,
+        timerStart,
+        bookingEndsAt,
+        mixedDoubles,
+        mixedFallback,
+        pairingRules,
+        format,
+        pointsPerMatch,
+        plannedRounds,
+        tournament,
+      }
+    )
+  );
+}
+
+// Whether replaying the actions gives back this state. Sessions saved
+// before every step was recorded may not.
+export function isReplayable(state: SessionState): boolean {
+  try {
+    const replayed = replaySession(state.session, state.actions);
+    return (
+      replayed.currentRound === state.currentRound &&
+      JSON.stringify(replayed.matchStates) === JSON.stringify(state.matchStates)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Start the timer of every match that hasn't started yet, for sessions
+// whose timers start as soon as a match is drawn
+export function startDrawnMatches(state: SessionState): SessionState {
+  if (state.session.timerStart !== 'onDraw') return state;
+  const startedAt = Date.now();
+  return getPendingMatches(state)
+    .filter((ms) => ms.startedAt === undefined)
+    .reduce(
+      (current, ms) => applySessionAction(current, { type: 'startMatch', matchId: ms.match.id, startedAt }),
+      state
+    );
+}
+
+// Wrap a session state with the actions that can be taken on it. Every
+// action returns a new state and leaves the wrapped one untouched.
+export function createSessionEngine(state: SessionState): SessionEngine {
+  return {
+    state,
+    nextRound: () => startDrawnMatches(applySessionAction(state, { type: 'nextRound' })),
+    refreshRound: () => startDrawnMatches(applySessionAction(state, { type: 'refreshRound' })),
+    redrawRound: () => startDrawnMatches(applySessionAction(state, { type: 'redrawRound' })),
+    swapPlayers: (playerA, playerB) =>
+      applySessionAction(state, { type: 'swapPlayers', playerIds: [playerA, playerB] }),
+    startMatch: (matchId) => applySessionAction(state, { type: 'startMatch', matchId, startedAt: Date.now() }),
+    recordCompletion: (matchId, result) => startDrawnMatches(
+      applySessionAction(state, { type: 'recordCompletion', matchId, result, completedAt: Date.now() })
+    ),
+    undo: () => applySessionAction(state, { type: 'undo' }),
+    redo: () => applySessionAction(state, { type: 'redo' }),
+    addPlayer: (name) => {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('Enter a player name');
+      }
+      return applySessionAction(state, {
+        type: 'addPlayer',
+        player: { id: crypto.randomUUID(), name: trimmedName },
+      });
+    },
+    setPlayerStatus: (playerId, status) =>
+      applySessionAction(state, { type: 'setPlayerStatus', playerId, status }),
+  };
+}
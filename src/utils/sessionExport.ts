@@ -0,0 +1,361 @@
+import {
+  LeftoverFormat,
+  Match,
+  MatchResult,
+  MixedFallback,
+  PlayerStatus,
+  ScheduleMode,
+  SessionAction,
+  SessionState,
+  TeamMode,
+  TimerStart,
+} from '../types';
+import { PAIRING_RULE_LABELS, validatePairingRules } from './pairingRules';
+import { isPersistedSession, migrateSession, PersistedSession, SESSION_SCHEMA_VERSION } from './persistence';
+import { formatResult, getTeams } from './scoring';
+import { isReplayable } from './sessionEngine';
+import { SESSION_FORMAT_LABELS } from './socialFormats';
+import { validateTournament } from './tournament';
+
+// Marks a file as a session export, so other JSON files are rejected early
+const EXPORT_FORMAT = 'badminton-session';
+
+// Exports share the schema version with saved sessions, so an old export
+// is upgraded by the same migrations as an old save
+interface SessionExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  state: SessionState;
+}
+
+export function exportSessionJson(state: SessionState, exportedAt: number = Date.now()): string {
+  const { session, matchStates, currentRound, benches, actions, replayable } = state;
+  const data: SessionExport = {
+    format: EXPORT_FORMAT,
+    version: SESSION_SCHEMA_VERSION,
+    exportedAt,
+    state: { session, matchStates, currentRound, benches, actions, replayable },
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const LEFTOVER_FORMATS: LeftoverFormat[] = ['sitOut', 'singles', 'twoVsOne'];
+const PLAYER_STATUSES: PlayerStatus[] = ['active', 'onBreak', 'left'];
+const TEAM_MODES: TeamMode[] = ['balanced', 'random', 'groupedByLevel'];
+const SCHEDULE_MODES: ScheduleMode[] = ['rounds', 'rolling'];
+const TIMER_STARTS: TimerStart[] = ['onDraw', 'onTap'];
+const MIXED_FALLBACKS: MixedFallback[] = ['levelDoubles', 'sitOut'];
+
+const isCount = (value: unknown, min: number) => Number.isInteger(value) && (value as number) >= min;
+const isPositiveOrNull = (value: unknown) => value === null || (typeof value === 'number' && value > 0);
+
+function isReadableResult(result: MatchResult | undefined): boolean {
+  return (
+    Array.isArray(result?.games) &&
+    result.games.every((game) => typeof game?.team1 === 'number' && typeof game.team2 === 'number') &&
+    (result.winner === 'team1' || result.winner === 'team2')
+  );
+}
+
+// Only the shape is checked: an action may name a match that was later
+// undone, so it needn't be one of the matches in the file
+function isReadableAction(action: SessionAction): boolean {
+  switch (action?.type) {
+    case 'nextRound':
+    case 'refreshRound':
+    case 'redrawRound':
+    case 'undo':
+    case 'redo':
+      return true;
+    case 'addPlayer':
+      return typeof action.player?.id === 'string' && typeof action.player.name === 'string';
+    case 'setPlayerStatus':
+      return typeof action.playerId === 'string' && PLAYER_STATUSES.includes(action.status);
+    case 'swapPlayers':
+      return (
+        Array.isArray(action.playerIds) &&
+        action.playerIds.length === 2 &&
+        action.playerIds.every((id) => typeof id === 'string')
+      );
+    case 'startMatch':
+      return typeof action.matchId === 'string' && typeof action.startedAt === 'number';
+    case 'recordCompletion':
+      return (
+        typeof action.matchId === 'string' &&
+        typeof action.completedAt === 'number' &&
+        isReadableResult(action.result)
+      );
+    default:
+      return false;
+  }
+}
+
+// Throws if a match can't be played in the session: unknown players or a
+// court the session doesn't have
+function validateMatch(match: Match, label: string, playerIds: Set<string>, numberOfCourts: number): void {
+  if (typeof match?.id !== 'string' || !match.id) {
+    throw new Error(`${label}: the match has no id`);
+  }
+  const players = match.players;
+  if (!Array.isArray(players) || players.length < 2 || players.length > 4) {
+    throw new Error(`${label}: a match has 2 to 4 players`);
+  }
+  const unknown = players.find((player) => !playerIds.has(player?.id));
+  if (unknown) {
+    throw new Error(`${label}: ${unknown.name ?? 'a player'} is not one of the session's players`);
+  }
+  if (!Number.isInteger(match.court) || match.court < 1 || match.court > numberOfCourts) {
+    throw new Error(`${label}: court ${match.court} is not one of the session's courts`);
+  }
+}
+
+// Throws if two matches share an id, as results are recorded by match id
+function validateUniqueIds(matches: Match[], what: string): void {
+  const ids = new Set<string>();
+  matches.forEach((match) => {
+    if (ids.has(match.id)) {
+      throw new Error(`${what} use the match id ${match.id} more than once`);
+    }
+    ids.add(match.id);
+  });
+}
+
+// Throws with a readable message if the session doesn't hang together,
+// e.g. a match naming a player who isn't in the session
+function validateSessionState(state: SessionState): void {
+  const { session, matchStates, benches, actions } = state;
+  const playerIds = new Set<string>();
+  for (const player of session.players) {
+    if (typeof player?.id !== 'string' || typeof player.name !== 'string') {
+      throw new Error('Every player needs an id and a name');
+    }
+    if (playerIds.has(player.id)) {
+      throw new Error(`${player.name} appears more than once`);
+    }
+    playerIds.add(player.id);
+  }
+
+  if (!Number.isInteger(session.numberOfCourts) || session.numberOfCourts < 1) {
+    throw new Error('The number of courts must be a whole number of at least 1');
+  }
+  if (typeof session.seed !== 'string' || !session.seed.trim()) {
+    throw new Error('The session has no seed');
+  }
+  const weights = session.pairingWeights;
+  if (
+    !weights ||
+    ![weights.partnerRepeat, weights.opponentRepeat, weights.recency].every(
+      (weight) => typeof weight === 'number' && Number.isFinite(weight) && weight >= 0
+    )
+  ) {
+    throw new Error('The pairing weights are not readable');
+  }
+  if (!TEAM_MODES.includes(session.teamMode)) {
+    throw new Error(`${session.teamMode} is not a way of making teams`);
+  }
+  if (!SCHEDULE_MODES.includes(session.scheduleMode)) {
+    throw new Error(`${session.scheduleMode} is not a schedule`);
+  }
+  if (!TIMER_STARTS.includes(session.timerStart)) {
+    throw new Error(`${session.timerStart} is not a way of starting timers`);
+  }
+  if (typeof session.mixedDoubles !== 'boolean' || !MIXED_FALLBACKS.includes(session.mixedFallback)) {
+    throw new Error('The mixed doubles settings are not readable');
+  }
+  if (!isPositiveOrNull(session.gameLengthMinutes) || !isPositiveOrNull(session.bookingEndsAt)) {
+    throw new Error('The game length or booking end is not readable');
+  }
+  if (session.pointsPerMatch !== null && !isCount(session.pointsPerMatch, 1)) {
+    throw new Error('The points per match must be a whole number of at least 1');
+  }
+  if (!(session.format in SESSION_FORMAT_LABELS)) {
+    throw new Error(`${session.format} is not a session format`);
+  }
+  if (
+    !Array.isArray(session.leftoverFormats) ||
+    session.leftoverFormats.length > session.numberOfCourts ||
+    !session.leftoverFormats.every((format) => LEFTOVER_FORMATS.includes(format))
+  ) {
+    throw new Error('The courts for leftover players are not readable');
+  }
+
+  const isPlayerMap = (value: unknown) =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).every((id) => playerIds.has(id));
+  if (
+    !isPlayerMap(session.playerStatus) ||
+    !Object.values(session.playerStatus).every((status) => PLAYER_STATUSES.includes(status))
+  ) {
+    throw new Error("The players' statuses are not readable");
+  }
+  if (
+    !isPlayerMap(session.gameCredits) ||
+    !Object.values(session.gameCredits).every((credit) => Number.isInteger(credit) && credit >= 0)
+  ) {
+    throw new Error('The games credited to players are not readable');
+  }
+
+  if (
+    !Array.isArray(session.pairingRules) ||
+    !session.pairingRules.every(
+      (rule) => rule?.type in PAIRING_RULE_LABELS && Array.isArray(rule.playerIds) && rule.playerIds.length === 2
+    )
+  ) {
+    throw new Error('The pairing rules are not readable');
+  }
+  validatePairingRules(session.pairingRules, session.players);
+
+  if (session.format === 'tournament') {
+    const { tournament } = session;
+    if (!tournament || !Array.isArray(tournament.teams) || !tournament.teams.every((team) => Array.isArray(team?.playerIds))) {
+      throw new Error('The tournament teams are not readable');
+    }
+    validateTournament(tournament, session.players);
+  } else if (session.tournament !== null) {
+    throw new Error('Only a tournament session has tournament teams');
+  }
+
+  if (!Array.isArray(session.plannedRounds) || !session.plannedRounds.every(Array.isArray)) {
+    throw new Error('The planned rounds are not readable');
+  }
+  if (session.format === 'americano' && session.plannedRounds.length === 0) {
+    throw new Error('The Americano rotation is missing');
+  }
+  session.plannedRounds.forEach((matches, index) =>
+    matches.forEach((match) =>
+      validateMatch(match, `Planned round ${index + 1}`, playerIds, session.numberOfCourts)
+    )
+  );
+  validateUniqueIds(session.plannedRounds.flat(), 'The planned rounds');
+
+  if (!Array.isArray(session.matches)) {
+    throw new Error("The session's matches are not readable");
+  }
+  session.matches.forEach((match, index) =>
+    validateMatch(match, `Match ${index + 1}`, playerIds, session.numberOfCourts)
+  );
+  validateUniqueIds(session.matches, "The session's matches");
+
+  if (!isCount(state.currentRound, 1)) {
+    throw new Error('The current round must be a whole number of at least 1');
+  }
+  matchStates.forEach((ms, index) => {
+    const label = `Match ${index + 1}`;
+    validateMatch(ms?.match, label, playerIds, session.numberOfCourts);
+    if (!isCount(ms.round, 1) || ms.round > state.currentRound) {
+      throw new Error(`${label}: round ${ms.round} is not one of the session's rounds so far`);
+    }
+    if (typeof ms.completed !== 'boolean') {
+      throw new Error(`${label}: it is not clear whether the match is finished`);
+    }
+    if (ms.result && !isReadableResult(ms.result)) {
+      throw new Error(`${label}: the result is not readable`);
+    }
+  });
+  validateUniqueIds(matchStates.map((ms) => ms.match), 'The matches');
+
+  if (!Array.isArray(benches)) {
+    throw new Error('The sit-outs are not readable');
+  }
+  benches.forEach((bench) => {
+    if (!Number.isInteger(bench?.round) || bench.round < 1 || !Array.isArray(bench.playerIds)) {
+      throw new Error('The sit-outs are not readable');
+    }
+    if (!bench.playerIds.every((id) => playerIds.has(id))) {
+      throw new Error(`Round ${bench.round}: a player sitting out is not one of the session's players`);
+    }
+  });
+
+  if (!Array.isArray(actions)) {
+    throw new Error('The session history is not readable');
+  }
+  const unreadable = actions.findIndex((action) => !isReadableAction(action));
+  if (unreadable !== -1) {
+    throw new Error(`Step ${unreadable + 1} of the session history is not readable`);
+  }
+}
+
+// Reads an exported file back into a session, upgrading older exports.
+// Throws if the file isn't an export or can't be used by this version.
+export function importSessionJson(text: string): PersistedSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const file = (data && typeof data === 'object' ? data : {}) as Partial<SessionExport>;
+  if (file.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a session export from this app');
+  }
+  if (typeof file.version !== 'number' || typeof file.exportedAt !== 'number') {
+    throw new Error('The file is missing its version or export time');
+  }
+  if (file.version > SESSION_SCHEMA_VERSION) {
+    throw new Error('The file comes from a newer version of the app; update the app to import it');
+  }
+
+  const saved = { ...file.state, version: file.version, savedAt: file.exportedAt };
+  if (!isPersistedSession(saved)) {
+    throw new Error('The file is missing the session, its players or its matches');
+  }
+  const migrated = migrateSession(saved);
+  if (!migrated) {
+    throw new Error(`The file uses version ${file.version}, which can't be upgraded`);
+  }
+  validateSessionState(migrated);
+  // An edited file could claim to replay when it doesn't, which would make
+  // undo rebuild a different session
+  return { ...migrated, replayable: isReplayable(migrated) };
+}
+
+const CSV_COLUMNS = [
+  'Round',
+  'Court',
+  'Side',
+  'Team 1',
+  'Team 2',
+  'Status',
+  'Score',
+  'Winner',
+  'Started',
+  'Completed',
+];
+
+// Quote a field when it holds a separator, quote or line break
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatTimestamp(timestamp: number | undefined): string {
+  return timestamp !== undefined ? new Date(timestamp).toISOString() : '';
+}
+
+// One row per match, in the order they were drawn
+export function exportSessionCsv(state: SessionState): string {
+  const rows = state.matchStates.map((ms) => {
+    const teamNames = getTeams(ms.match).map((team) => team.map((player) => player.name).join(' & '));
+    const status = ms.completed ? 'Completed' : ms.startedAt !== undefined ? 'In progress' : 'Not started';
+    return [
+      ms.round,
+      ms.match.court,
+      ms.match.side,
+      teamNames[0],
+      teamNames[1],
+      status,
+      ms.result ? formatResult(ms.result) : '',
+      ms.result ? teamNames[ms.result.winner === 'team1' ? 0 : 1] : '',
+      formatTimestamp(ms.startedAt),
+      formatTimestamp(ms.completedAt),
+    ];
+  });
+  return [CSV_COLUMNS, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n');
+}
+
+// Date the file name so exports from different evenings don't clash
+export function exportFileName(extension: string, exportedAt: number = Date.now()): string {
+  const date = new Date(exportedAt).toISOString().slice(0, 10);
+  return `badminton-session-${date}.${extension}`;
+}
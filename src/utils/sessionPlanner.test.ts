@@ -0,0 +1,53 @@
+import { Player } from '../types';
+import { getPlanCoverage, planSession } from './sessionPlanner';
+import { startSession } from './sessionEngine';
+
+function makePlayers(count: number): Player[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i + 1}`, name: `Player ${i + 1}` }));
+}
+
+describe('planSession', () => {
+  it.each([
+    [5, 1, 5],
+    [8, 2, 7],
+    [9, 2, 9],
+    [12, 3, 11],
+    [13, 3, 13],
+  ])('partners everyone once with %i players on %i court(s) over %i rounds', (count, courts, rounds) => {
+    const plan = planSession(makePlayers(count), courts, rounds, { seed: 'alpha', format: 'americano' });
+    const coverage = getPlanCoverage(plan);
+
+    expect(coverage.partnerships).toBe(coverage.possiblePartnerships);
+    expect(coverage.maxPartnerRepeats).toBe(1);
+    const sitOuts = coverage.players.map((entry) => entry.sitOuts);
+    expect(Math.max(...sitOuts) - Math.min(...sitOuts)).toBe(0);
+  });
+
+  it('falls back to the free play planner when no round robin fits', () => {
+    const plan = planSession(makePlayers(6), 1, 5, { seed: 'bravo', format: 'americano' });
+
+    expect(plan.rounds).toHaveLength(5);
+    plan.rounds.forEach((round) => {
+      expect(round.matches).toHaveLength(1);
+      expect(round.sittingOut).toHaveLength(2);
+    });
+  });
+
+  it('gives the same plan for the same seed', () => {
+    const plan = () => planSession(makePlayers(8), 2, 7, { seed: 'charlie', format: 'americano' });
+
+    expect(plan()).toEqual(plan());
+  });
+
+  it('plans rounds a session can start from', () => {
+    const players = makePlayers(9);
+    const plan = planSession(players, 2, 9, { seed: 'delta', format: 'americano' });
+    const state = startSession(players, 2, {
+      seed: 'delta',
+      format: 'americano',
+      plannedRounds: plan.rounds.map((round) => round.matches),
+    });
+
+    expect(state.matchStates.map((ms) => ms.match)).toEqual(plan.rounds[0].matches);
+  });
+});
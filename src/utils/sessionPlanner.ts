@@ -0,0 +1,264 @@
+import { Match, PairingRule, Player, SessionState } from '../types';
+import { applySessionAction, getRoundMatches, SessionOptions, startSession } from './sessionEngine';
+import { createSeed, deriveRandom, normalizeSeed, Random } from './random';
+import { getBench } from './sitOuts';
+import { getTeams } from './scoring';
+
+// Plans are drawn a few times from different seeds and the one covering
+// the most partnerships is kept; each attempt is already fair on rests
+const PLAN_ATTEMPTS = 6;
+
+// Enough for a long evening; more would only make the sheet unreadable
+export const MAX_PLANNED_ROUNDS = 30;
+
+export interface PlannedRound {
+  round: number;
+  matches: Match[];
+  sittingOut: Player[];
+}
+
+// The whole session drawn up front, as if every match is played in order
+export interface SessionPlan {
+  players: Player[];
+  numberOfCourts: number;
+  pairingRules: PairingRule[];
+  rounds: PlannedRound[];
+}
+
+export interface PlayerCoverage {
+  player: Player;
+  games: number;
+  sitOuts: number;
+  // Different players partnered at least once
+  partners: number;
+}
+
+export interface PlanCoverage {
+  // Pairs of players who partner at least once, out of the pairs allowed to
+  partnerships: number;
+  possiblePartnerships: number;
+  // Pairs of players who face each other at least once
+  opponentPairs: number;
+  possibleOpponentPairs: number;
+  // Most times the same two players partner
+  maxPartnerRepeats: number;
+  players: PlayerCoverage[];
+}
+
+function pairKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+// Count how often each pair of players meets in the given relation
+function countPairs(matches: Match[], relation: 'partners' | 'opponents'): Map<string, number> {
+  const counts = new Map<string, number>();
+  const add = (a: Player, b: Player) => {
+    const key = pairKey(a.id, b.id);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  };
+  matches.forEach((match) => {
+    const [team1, team2] = getTeams(match);
+    if (relation === 'partners') {
+      [team1, team2].forEach((team) => team.forEach((a, i) => team.slice(i + 1).forEach((b) => add(a, b))));
+    } else {
+      team1.forEach((a) => team2.forEach((b) => add(a, b)));
+    }
+  });
+  return counts;
+}
+
+// Pairs of players that no rule keeps apart in the given relation
+function countPossiblePairs(players: Player[], rules: PairingRule[], forbiddenBy: PairingRule['type']): number {
+  const forbidden = new Set(
+    rules.filter((rule) => rule.type === forbiddenBy).map((rule) => pairKey(...rule.playerIds))
+  );
+  let count = 0;
+  players.forEach((a, i) => {
+    players.slice(i + 1).forEach((b) => {
+      if (!forbidden.has(pairKey(a.id, b.id))) count++;
+    });
+  });
+  return count;
+}
+
+export function getPlanCoverage(plan: SessionPlan): PlanCoverage {
+  const matches = plan.rounds.flatMap((round) => round.matches);
+  const partnerCounts = countPairs(matches, 'partners');
+  const opponentCounts = countPairs(matches, 'opponents');
+
+  return {
+    partnerships: partnerCounts.size,
+    possiblePartnerships: countPossiblePairs(plan.players, plan.pairingRules, 'mustNotPartner'),
+    opponentPairs: opponentCounts.size,
+    possibleOpponentPairs: countPossiblePairs(plan.players, plan.pairingRules, 'mustNotOppose'),
+    maxPartnerRepeats: Math.max(0, ...partnerCounts.values()),
+    players: plan.players.map((player) => ({
+      player,
+      games: matches.filter((match) => match.players.some((p) => p.id === player.id)).length,
+      sitOuts: plan.rounds.filter((round) => round.sittingOut.some((p) => p.id === player.id)).length,
+      partners: plan.players.filter(
+        (other) => other.id !== player.id && partnerCounts.has(pairKey(player.id, other.id))
+      ).length,
+    })),
+  };
+}
+
+// Mark the current round as played, without results, so the next draw
+// counts it like a finished round
+function completeRound(state: SessionState): SessionState {
+  return {
+    ...state,
+    matchStates: state.matchStates.map((ms) => (ms.round === state.currentRound ? { ...ms, completed: true } : ms)),
+  };
+}
+
+// Draw every round with the session engine, so the plan follows the same
+// rules, rests and leftover formats as a live session would. Whatever the
+// format, a plan is a free play rotation of partners.
+function drawPlan(players: Player[], numberOfCourts: number, rounds: number, options: SessionOptions): SessionPlan {
+  let state = startSession(players, numberOfCourts, {
+    ...options,
+    scheduleMode: 'rounds',
+    format: 'freePlay',
+    plannedRounds: [],
+  });
+  while (state.currentRound < rounds) {
+    state = applySessionAction(completeRound(state), { type: 'nextRound' });
+  }
+
+  const byId = new Map(players.map((player) => [player.id, player]));
+  return {
+    players,
+    numberOfCourts,
+    pairingRules: state.session.pairingRules,
+    rounds: Array.from({ length: rounds }, (_, i) => ({
+      round: i + 1,
+      matches: getRoundMatches(state, i + 1).map((ms) => ms.match),
+      sittingOut: getBench(state.benches, i + 1).flatMap((id) => byId.get(id) ?? []),
+    })),
+  };
+}
+
+// Pair up the pairs of a round into matches, each facing the pair it has
+// met least so far
+function matchPairs(pairs: Player[][], opponentCounts: Map<string, number>, rng: Random): Match[] {
+  const meetings = (a: Player[], b: Player[]) =>
+    a.flatMap((x) => b.map((y) => opponentCounts.get(pairKey(x.id, y.id)) ?? 0)).reduce((sum, count) => sum + count, 0);
+  const unmatched = rng.shuffle(pairs);
+  const matches: Match[] = [];
+  while (unmatched.length > 0) {
+    const pair = unmatched.shift() as Player[];
+    const index = unmatched.reduce(
+      (best, other, i) => (meetings(pair, other) < meetings(pair, unmatched[best]) ? i : best),
+      0
+    );
+    const [opponents] = unmatched.splice(index, 1);
+    pair.forEach((a) => {
+      opponents.forEach((b) => opponentCounts.set(pairKey(a.id, b.id), (opponentCounts.get(pairKey(a.id, b.id)) ?? 0) + 1));
+    });
+    matches.push({
+      id: rng.id(),
+      players: [pair[0], pair[1], opponents[0], opponents[1]],
+      court: matches.length + 1,
+      side: rng.next() < 0.5 ? 'left' : 'right',
+    });
+  }
+  return matches;
+}
+
+// The Americano rotation as a round robin of partners: the circle method
+// pairs everyone with everyone else once over a cycle of rounds, with one
+// player sitting out each round when the number is odd. Only possible when
+// every round has an even number of pairs and a court for each match;
+// otherwise null, and the rotation is drawn like a free play plan.
+function drawRoundRobin(players: Player[], numberOfCourts: number, rounds: number, seed: string): SessionPlan | null {
+  const pairsPerRound = Math.floor(players.length / 2);
+  if (pairsPerRound % 2 !== 0 || pairsPerRound / 2 > numberOfCourts) return null;
+
+  const rng = deriveRandom(seed, 'roundRobin');
+  const slots: (Player | null)[] = rng.shuffle(players);
+  if (slots.length % 2 !== 0) slots.push(null);
+  const [fixed, ...circle] = slots;
+  const cycle = circle.length;
+  const opponentCounts = new Map<string, number>();
+
+  return {
+    players,
+    numberOfCourts,
+    pairingRules: [],
+    rounds: Array.from({ length: rounds }, (_, i) => {
+      const turn = i % cycle;
+      const order = [fixed, ...circle.slice(turn), ...circle.slice(0, turn)];
+      const pairs: Player[][] = [];
+      const sittingOut: Player[] = [];
+      for (let j = 0; j < order.length / 2; j++) {
+        const pair = [order[j], order[order.length - 1 - j]];
+        const seated = pair.filter((player): player is Player => player !== null);
+        if (seated.length === 2) {
+          pairs.push(seated);
+        } else {
+          sittingOut.push(...seated);
+        }
+      }
+      return { round: i + 1, matches: matchPairs(pairs, opponentCounts, rng), sittingOut };
+    }),
+  };
+}
+
+// Negative when plan a covers more than plan b: more partnerships, then
+// fewer repeats of one, games spread more evenly and more opponents
+function comparePlans(a: PlanCoverage, b: PlanCoverage): number {
+  const spread = (coverage: PlanCoverage) => {
+    const games = coverage.players.map((entry) => entry.games);
+    return Math.max(...games) - Math.min(...games);
+  };
+  return (
+    b.partnerships - a.partnerships ||
+    a.maxPartnerRepeats - b.maxPartnerRepeats ||
+    spread(a) - spread(b) ||
+    b.opponentPairs - a.opponentPairs
+  );
+}
+
+// Draw the whole session up front for a fixed number of rounds. Rolling
+// sessions are planned as rounds, as there is no telling which court
+// finishes first. An Americano gets a round robin of partners when one
+// fits the players and courts.
+export function planSession(
+  players: Player[],
+  numberOfCourts: number,
+  rounds: number,
+  options: SessionOptions = {}
+): SessionPlan {
+  if (!Number.isInteger(rounds) || rounds < 1) {
+    throw new Error('Plan at least one round');
+  }
+  if (rounds > MAX_PLANNED_ROUNDS) {
+    throw new Error(`Plan at most ${MAX_PLANNED_ROUNDS} rounds`);
+  }
+
+  const seed = normalizeSeed(options.seed ?? createSeed());
+  if (options.format === 'americano' && !options.pairingRules?.length && !options.mixedDoubles) {
+    const roundRobin = drawRoundRobin(players, numberOfCourts, rounds, seed);
+    if (roundRobin) return roundRobin;
+  }
+  const candidates = Array.from({ length: PLAN_ATTEMPTS }, (_, attempt) => {
+    const plan = drawPlan(players, numberOfCourts, rounds, {
+      ...options,
+      seed: attempt === 0 ? seed : `${seed}-${attempt}`,
+    });
+    return { plan, coverage: getPlanCoverage(plan) };
+  });
+  return candidates.reduce((best, candidate) =>
+    comparePlans(candidate.coverage, best.coverage) < 0 ? candidate : best
+  ).plan;
+}
+
+export interface PlanRequest {
+  players: Player[];
+  numberOfCourts: number;
+  rounds: number;
+  options: SessionOptions;
+}
+
+export type PlanResponse = { plan: SessionPlan } | { error: string };
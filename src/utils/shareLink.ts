@@ -0,0 +1,113 @@
+import { ScheduleMode, SessionState, TeamSide } from '../types';
+import { getTeams } from './scoring';
+import { getSittingOutIds } from './sessionEngine';
+
+// Bump whenever the shape of ScheduleSnapshot changes; viewers reject
+// snapshots they don't understand instead of showing them wrongly
+const SNAPSHOT_VERSION = 1;
+
+export type SnapshotMatchStatus = 'waiting' | 'playing' | 'done';
+
+export interface SnapshotMatch {
+  round: number;
+  court: number;
+  // Indexes into the snapshot's players, one list per team
+  teams: [number[], number[]];
+  status: SnapshotMatchStatus;
+  winner?: TeamSide;
+}
+
+// What the read-only viewer needs to show who plays where. Kept separate
+// from the session so the link stays short enough for a QR code.
+export interface ScheduleSnapshot {
+  version: number;
+  capturedAt: number;
+  scheduleMode: ScheduleMode;
+  numberOfCourts: number;
+  currentRound: number;
+  players: string[];
+  matches: SnapshotMatch[];
+  // Players waiting for a court in a rolling session, or sitting out the
+  // current round
+  waiting: number[];
+}
+
+export function createSnapshot(state: SessionState, capturedAt: number): ScheduleSnapshot {
+  const { session, matchStates, currentRound } = state;
+  const indexOf = new Map(session.players.map((player, index) => [player.id, index]));
+  const toIndexes = (ids: string[]) => ids.map((id) => indexOf.get(id) ?? -1).filter((index) => index >= 0);
+
+  return {
+    version: SNAPSHOT_VERSION,
+    capturedAt,
+    scheduleMode: session.scheduleMode,
+    numberOfCourts: session.numberOfCourts,
+    currentRound,
+    players: session.players.map((player) => player.name),
+    matches: matchStates.map((ms) => {
+      const [team1, team2] = getTeams(ms.match).map((team) => toIndexes(team.map((player) => player.id)));
+      return {
+        round: ms.round,
+        court: ms.match.court,
+        teams: [team1, team2],
+        status: ms.completed ? 'done' : ms.startedAt !== undefined ? 'playing' : 'waiting',
+        winner: ms.result?.winner,
+      };
+    }),
+    waiting: toIndexes(getSittingOutIds(state)),
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// Compressed, URL-safe text for the link's hash
+export async function encodeSnapshot(snapshot: ScheduleSnapshot): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(snapshot));
+  return toBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+// Throws if the hash wasn't made by encodeSnapshot, e.g. a link cut short
+// when it was copied
+export async function decodeSnapshot(encoded: string): Promise<ScheduleSnapshot> {
+  let data: unknown;
+  try {
+    const json = await transform(fromBase64Url(encoded), new DecompressionStream('deflate-raw'));
+    data = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('This link is incomplete or damaged; ask for it to be shared again');
+  }
+
+  const snapshot = data as Partial<ScheduleSnapshot> | null;
+  if (typeof snapshot?.version !== 'number' || snapshot.version > SNAPSHOT_VERSION) {
+    throw new Error('This link comes from a newer version of the app; reload the page to update it');
+  }
+  if (
+    typeof snapshot.capturedAt !== 'number' ||
+    !Array.isArray(snapshot.players) ||
+    !Array.isArray(snapshot.matches) ||
+    !Array.isArray(snapshot.waiting)
+  ) {
+    throw new Error('This link is missing the schedule');
+  }
+  return snapshot as ScheduleSnapshot;
+}
+
+export function getShareUrl(encoded: string): string {
+  return `${window.location.origin}/view#${encoded}`;
+}
@@ -0,0 +1,105 @@
+import { Player, MatchState, RoundBench } from '../types';
+
+export interface RestStats {
+  player: Player;
+  roundsRested: number;
+  // Rounds rested in a row, counting back from the latest round
+  consecutiveRests: number;
+  roundsSinceLastPlayed: number;
+}
+
+export function getBench(benches: RoundBench[], round: number): string[] {
+  return benches.find((bench) => bench.round === round)?.playerIds ?? [];
+}
+
+// Replace the bench of one round, keeping the list in round order
+export function setBench(benches: RoundBench[], round: number, playerIds: string[]): RoundBench[] {
+  return [...benches.filter((bench) => bench.round !== round), { round, playerIds }]
+    .sort((a, b) => a.round - b.round);
+}
+
+// Sit-out history of every player over rounds 1..throughRound
+export function calculateRestStats(
+  players: Player[],
+  matchStates: MatchState[],
+  benches: RoundBench[],
+  throughRound: number
+): Map<string, RestStats> {
+  const lastPlayedRound = new Map<string, number>();
+  matchStates
+    .filter((ms) => ms.round <= throughRound)
+    .forEach((ms) => {
+      ms.match.players.forEach((player) => {
+        lastPlayedRound.set(player.id, Math.max(lastPlayedRound.get(player.id) ?? 0, ms.round));
+      });
+    });
+
+  const stats = new Map<string, RestStats>();
+  players.forEach((player) => {
+    stats.set(player.id, {
+      player,
+      roundsRested: 0,
+      consecutiveRests: 0,
+      roundsSinceLastPlayed: throughRound - (lastPlayedRound.get(player.id) ?? 0),
+    });
+  });
+
+  for (let round = 1; round <= throughRound; round++) {
+    const benched = new Set(getBench(benches, round));
+    stats.forEach((stat) => {
+      if (benched.has(stat.player.id)) {
+        stat.roundsRested++;
+        stat.consecutiveRests++;
+      } else {
+        stat.consecutiveRests = 0;
+      }
+    });
+  }
+
+  return stats;
+}
+
+// Players who rested last round must not rest again while someone else
+// hasn't rested at all yet. With groupOf, players are only compared with
+// others in the same group (e.g. in mixed doubles, where one group may
+// never need to rest).
+export function findProtectedPlayers(
+  restStats: Map<string, RestStats>,
+  groupOf: (player: Player) => string = () => ''
+): Set<string> {
+  const stats = Array.from(restStats.values());
+  return new Set(
+    stats
+      .filter((stat) =>
+        stat.consecutiveRests > 0 &&
+        stats.some((other) =>
+          other.player.id !== stat.player.id &&
+          groupOf(other.player) === groupOf(stat.player) &&
+          other.roundsRested === 0
+        )
+      )
+      .map((stat) => stat.player.id)
+  );
+}
+
+// Who should play first, as a key compared element by element: protected
+// players, then fewest games, then most rests, then longest wait
+export function playPriorityKey(
+  stat: RestStats | undefined,
+  gamesPlayed: number,
+  isProtected: boolean
+): number[] {
+  return [
+    isProtected ? 0 : 1,
+    gamesPlayed,
+    -(stat?.roundsRested ?? 0),
+    -(stat?.roundsSinceLastPlayed ?? 0),
+  ];
+}
+
+export function comparePriorityKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
@@ -0,0 +1,78 @@
+import { Match, MatchState, Player, SessionFormat } from '../types';
+import { Random } from './random';
+import { getTeams } from './scoring';
+
+export const SESSION_FORMAT_LABELS: Record<SessionFormat, string> = {
+  freePlay: 'Free play',
+  americano: 'Americano',
+  mexicano: 'Mexicano',
+  kingOfTheCourt: 'King of the court',
+  tournament: 'Tournament',
+};
+
+// The usual Americano total: each player serves a few times in a row
+export const DEFAULT_POINTS_PER_MATCH = 21;
+
+export interface Standing {
+  player: Player;
+  // Points the player's teams scored, the only thing that ranks players
+  points: number;
+  played: number;
+  wins: number;
+  pointDifference: number;
+}
+
+export function scoresIndividualPoints(format: SessionFormat): boolean {
+  return format === 'americano' || format === 'mexicano';
+}
+
+// Everyone ranked on their own points, then wins, then point difference
+export function calculateStandings(players: Player[], matchStates: MatchState[]): Standing[] {
+  const standings = new Map<string, Standing>(
+    players.map((player) => [player.id, { player, points: 0, played: 0, wins: 0, pointDifference: 0 }])
+  );
+
+  matchStates.forEach(({ match, completed, result }) => {
+    if (!completed || !result) return;
+    getTeams(match).forEach((team, teamIndex) => {
+      const side = teamIndex === 0 ? 'team1' : 'team2';
+      const otherSide = side === 'team1' ? 'team2' : 'team1';
+      team.forEach((player) => {
+        const standing = standings.get(player.id);
+        if (!standing) return;
+        standing.played++;
+        if (result.winner === side) standing.wins++;
+        result.games.forEach((game) => {
+          standing.points += game[side];
+          standing.pointDifference += game[side] - game[otherSide];
+        });
+      });
+    });
+  });
+
+  return Array.from(standings.values()).sort(compareStandings);
+}
+
+export function compareStandings(a: Standing, b: Standing): number {
+  return b.points - a.points || b.wins - a.wins || b.pointDifference - a.pointDifference;
+}
+
+// Rank of each sorted standing, 1 for the leader; players level on points,
+// wins and point difference share a rank
+export function getRanks(standings: Standing[]): number[] {
+  return standings.map((standing) => standings.findIndex((other) => compareStandings(other, standing) === 0) + 1);
+}
+
+// Mexicano: the four best ranked players take court 1, the next four court
+// 2 and so on, with 1st and 3rd playing 2nd and 4th on every court
+export function pairByStandings(ranked: Player[], courts: number[], rng: Random): Match[] {
+  return courts.slice(0, Math.floor(ranked.length / 4)).map((court, index) => {
+    const [first, second, third, fourth] = ranked.slice(index * 4, index * 4 + 4);
+    return {
+      id: rng.id(),
+      players: [first, third, second, fourth],
+      court,
+      side: rng.next() < 0.5 ? 'left' : 'right',
+    };
+  });
+}
@@ -0,0 +1,196 @@
+import { SessionAction, SessionState } from '../types';
+import { applySessionAction, startDrawnMatches } from './sessionEngine';
+
+// One device hosts the session and keeps the authoritative state. Other
+// devices follow it: they send the actions they want to apply, and the
+// host either applies them and sends everyone the new state, or rejects
+// them when another device changed the same thing first.
+export type SyncRole = 'host' | 'follower';
+
+export interface SyncSettings {
+  role: SyncRole;
+  // Devices with the same room code see the same session
+  room: string;
+  // Relay for other devices on the network; null syncs this browser's tabs
+  relayUrl: string | null;
+}
+
+export type SyncMessage =
+  // A follower asking for the current state
+  | { type: 'hello'; from: string }
+  | { type: 'state'; from: string; state: SessionState }
+  // An action a follower applied on top of the first baseLength actions
+  | { type: 'propose'; from: string; baseLength: number; action: SessionAction }
+  | { type: 'rejected'; from: string; to: string; reason: string };
+
+export type SyncStatus = 'connecting' | 'connected' | 'disconnected';
+
+// How messages get between devices. Messages are delivered to everyone
+// else in the room, not back to the sender.
+export interface SyncTransport {
+  send(message: SyncMessage): void;
+  // Returns a function that stops listening
+  subscribe(listener: (message: SyncMessage) => void): () => void;
+  close(): void;
+}
+
+function createListeners() {
+  const listeners = new Set<(message: SyncMessage) => void>();
+  return {
+    subscribe(listener: (message: SyncMessage) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    emit(message: SyncMessage) {
+      listeners.forEach((listener) => listener(message));
+    },
+  };
+}
+
+// Tabs of the same browser, no server needed
+export function createBroadcastTransport(room: string, onStatus: (status: SyncStatus) => void): SyncTransport {
+  const channel = new BroadcastChannel(`badminton-sync-${room}`);
+  const listeners = createListeners();
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => listeners.emit(event.data);
+  onStatus('connected');
+
+  return {
+    send: (message) => channel.postMessage(message),
+    subscribe: listeners.subscribe,
+    close: () => {
+      channel.close();
+      onStatus('disconnected');
+    },
+  };
+}
+
+const RECONNECT_DELAY_MS = 2000;
+
+// Other devices through the relay in relay/server.js. Reconnects when the
+// connection drops and holds messages until it is back.
+export function createWebSocketTransport(
+  relayUrl: string,
+  room: string,
+  onStatus: (status: SyncStatus) => void
+): SyncTransport {
+  const listeners = createListeners();
+  const queue: SyncMessage[] = [];
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const connect = () => {
+    const url = new URL(relayUrl);
+    url.searchParams.set('room', room);
+    onStatus('connecting');
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      onStatus('connected');
+      queue.splice(0).forEach((message) => socket?.send(JSON.stringify(message)));
+    };
+    socket.onmessage = (event: MessageEvent<string>) => {
+      let message: SyncMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch {
+        // Not from this app, or cut short; the next change sends the whole
+        // state again
+        return;
+      }
+      listeners.emit(message);
+    };
+    socket.onclose = () => {
+      if (closed) return;
+      onStatus('disconnected');
+      reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+    };
+  };
+  connect();
+
+  return {
+    send: (message) => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+      } else {
+        queue.push(message);
+      }
+    },
+    subscribe: listeners.subscribe,
+    close: () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      onStatus('disconnected');
+    },
+  };
+}
+
+// Accepts "host:port" as well as a full ws:// or wss:// address; throws if
+// the text can't be a relay address. Empty text means no relay.
+export function parseRelayUrl(text: string): string | null {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  let url: URL;
+  try {
+    url = new URL(trimmed.includes('://') ? trimmed : `ws://${trimmed}`);
+  } catch {
+    throw new Error(`${trimmed} is not a relay address`);
+  }
+  if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+    throw new Error('The relay address must start with ws:// or wss://');
+  }
+  return url.toString();
+}
+
+export function createTransport(settings: SyncSettings, onStatus: (status: SyncStatus) => void): SyncTransport {
+  return settings.relayUrl
+    ? createWebSocketTransport(settings.relayUrl, settings.room, onStatus)
+    : createBroadcastTransport(settings.room, onStatus);
+}
+
+function isDraw(action: SessionAction): boolean {
+  return action.type === 'nextRound' || action.type === 'refreshRound' || action.type === 'redrawRound';
+}
+
+// Why the proposed action can't be applied on top of the actions the
+// proposing device hadn't seen yet, or null if it can
+export function findConflict(state: SessionState, baseLength: number, action: SessionAction): string | null {
+  const missed = state.actions.slice(baseLength);
+  if (missed.length === 0) return null;
+
+  if (action.type === 'recordCompletion') {
+    const matchState = state.matchStates.find((ms) => ms.match.id === action.matchId);
+    if (!matchState) {
+      return 'That match was redrawn on another device';
+    }
+    const recordedElsewhere = missed.some(
+      (other) => other.type === 'recordCompletion' && other.matchId === action.matchId
+    );
+    if (recordedElsewhere) {
+      return `The match on court ${matchState.match.court} was already recorded on another device`;
+    }
+  }
+  // Undo and redo act on the latest step, which isn't the one the other
+  // device saw if anything but a timer happened since
+  if ((action.type === 'undo' || action.type === 'redo') && missed.some((other) => other.type !== 'startMatch')) {
+    return `The session changed on another device first; check it before ${action.type === 'undo' ? 'undoing' : 'redoing'}`;
+  }
+  if (isDraw(action) && missed.some(isDraw)) {
+    return 'The round was already drawn on another device';
+  }
+  return null;
+}
+
+// Apply a follower's action on the host. Throws with the reason when it
+// conflicts with the host's state or the engine refuses it.
+export function applyProposal(state: SessionState, baseLength: number, action: SessionAction): SessionState {
+  const conflict = findConflict(state, baseLength, action);
+  if (conflict) {
+    throw new Error(conflict);
+  }
+  // Timers that start on draw are started here rather than sent along, as
+  // the draw may land differently on the host
+  return startDrawnMatches(applySessionAction(state, action));
+}
@@ -0,0 +1,61 @@
+import { MatchState, SessionState } from '../types';
+
+const MINUTE = 60 * 1000;
+
+export function minutesToMs(minutes: number): number {
+  return minutes * MINUTE;
+}
+
+// m:ss, e.g. 12:05
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+export function getMatchDuration(matchState: MatchState): number | null {
+  const { startedAt, completedAt } = matchState;
+  return startedAt !== undefined && completedAt !== undefined ? completedAt - startedAt : null;
+}
+
+// Average length of the finished matches that were timed
+export function averageMatchDuration(matchStates: MatchState[]): number | null {
+  const durations = matchStates
+    .filter((ms) => ms.completed)
+    .map(getMatchDuration)
+    .filter((duration): duration is number => duration !== null && duration > 0);
+  if (durations.length === 0) return null;
+  return durations.reduce((sum, duration) => sum + duration, 0) / durations.length;
+}
+
+// Time left on a timed match, negative once time is up; null if untimed or
+// not started
+export function getTimeRemaining(matchState: MatchState, gameLengthMinutes: number | null, now: number): number | null {
+  if (gameLengthMinutes === null || matchState.startedAt === undefined || matchState.completed) return null;
+  return matchState.startedAt + minutesToMs(gameLengthMinutes) - now;
+}
+
+// How many more rounds (or matches per court, in a rolling session) fit
+// before the booking ends, once the matches on court now have finished.
+// Uses the average match so far, or the game length until a match has been
+// timed. Null when there is no booking end or nothing to estimate from.
+export function estimateRoundsLeft(state: SessionState, now: number): number | null {
+  const { bookingEndsAt, gameLengthMinutes } = state.session;
+  const matchLength = averageMatchDuration(state.matchStates) ??
+    (gameLengthMinutes !== null ? minutesToMs(gameLengthMinutes) : null);
+  if (bookingEndsAt === null || matchLength === null) return null;
+
+  const finishingIn = Math.max(
+    0,
+    ...state.matchStates
+      .filter((ms) => !ms.completed)
+      .map((ms) => (ms.startedAt === undefined ? matchLength : matchLength - (now - ms.startedAt)))
+  );
+  return Math.max(0, Math.floor((bookingEndsAt - now - finishingIn) / matchLength));
+}
+
+// Whole rounds of the given game length that fit in a booking
+export function roundsInBooking(bookingMinutes: number, gameLengthMinutes: number): number {
+  return Math.floor(bookingMinutes / gameLengthMinutes);
+}
@@ -0,0 +1,43 @@
+import { TournamentSettings } from '../types';
+import { BracketEntry, getBracket } from './tournament';
+
+function makeSettings(teamCount: number, groupCount: number, qualifiersPerGroup: number): TournamentSettings {
+  return {
+    teams: Array.from({ length: teamCount }, (_, i) => ({ id: `t${i + 1}`, playerIds: [`a${i + 1}`, `b${i + 1}`] })),
+    groupCount,
+    qualifiersPerGroup,
+  };
+}
+
+// The group an entry comes from, e.g. "C" for "Group C 2nd"
+const groupOf = (entry: BracketEntry) => ('from' in entry ? entry.from.split(' ')[1] : null);
+
+describe('getBracket', () => {
+  it.each([
+    [6, 3],
+    [8, 4],
+    [10, 5],
+    [12, 6],
+    [16, 8],
+  ])('puts the top two of each group in opposite halves (%i teams, %i groups)', (teamCount, groupCount) => {
+    const [firstRound] = getBracket(makeSettings(teamCount, groupCount, 2), []);
+    const halves = [firstRound.slice(0, firstRound.length / 2), firstRound.slice(firstRound.length / 2)].map(
+      (half) => half.flatMap((match) => match.entries.map(groupOf)).filter((group) => group !== null)
+    );
+
+    halves.forEach((groups) => expect(new Set(groups).size).toBe(groups.length));
+    expect([...halves[0], ...halves[1]]).toHaveLength(groupCount * 2);
+  });
+
+  it('still gives the byes to the group winners', () => {
+    const [firstRound] = getBracket(makeSettings(6, 3, 2), []);
+    const entries = firstRound.flatMap((match) => match.entries);
+
+    // Six teams in a bracket of 8 leave byes for seeds 1 and 2
+    const byeOpponents = firstRound
+      .filter((match) => match.entries.some((entry) => 'bye' in entry))
+      .flatMap((match) => match.entries.filter((entry) => !('bye' in entry)));
+    expect(byeOpponents).toEqual([{ from: 'Group A 1st' }, { from: 'Group B 1st' }]);
+    expect(entries.filter((entry) => 'bye' in entry)).toHaveLength(2);
+  });
+});
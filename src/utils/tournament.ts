@@ -0,0 +1,355 @@
+import { Match, MatchState, Player, TeamSide, TournamentSettings, TournamentTeam } from '../types';
+import { getTeams } from './scoring';
+
+// Fixed teams play every other team in their group, then the best of each
+// group go through to a single-elimination bracket. Tables and bracket are
+// worked out from the results every time, so they move on as results come
+// in and follow any result that gets edited.
+
+export interface Fixture {
+  id: string;
+  // e.g. "Group A" or "Semi-final 1"
+  label: string;
+  teams: [TournamentTeam, TournamentTeam];
+}
+
+export interface GroupRow {
+  team: TournamentTeam;
+  played: number;
+  wins: number;
+  losses: number;
+  gameDifference: number;
+  pointDifference: number;
+}
+
+// A place in the bracket: a team, a bye, or a team still to be decided
+export type BracketEntry = { team: TournamentTeam } | { bye: true } | { from: string };
+
+export interface BracketMatch {
+  id: string;
+  label: string;
+  entries: [BracketEntry, BracketEntry];
+  // Set once both teams are known
+  fixture: Fixture | null;
+  // The team going through; a team drawn against a bye goes straight through
+  winner: TournamentTeam | null;
+  // The match that decided it, if it was played
+  matchState: MatchState | null;
+}
+
+// The top two of each group usually go through
+export const DEFAULT_QUALIFIERS_PER_GROUP = 2;
+
+const GROUP_NAMES = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function getGroupName(group: number): string {
+  return GROUP_NAMES[group] ?? String(group + 1);
+}
+
+export function getTeamName(team: TournamentTeam, players: Player[]): string {
+  return team.playerIds
+    .map((id) => players.find((player) => player.id === id)?.name ?? 'Unknown')
+    .join(' & ');
+}
+
+function ordinal(place: number): string {
+  const suffix = place === 1 ? 'st' : place === 2 ? 'nd' : place === 3 ? 'rd' : 'th';
+  return `${place}${suffix}`;
+}
+
+// Throws with a readable message if the teams and stages don't make a
+// tournament
+export function validateTournament(settings: TournamentSettings, players: Player[]): void {
+  const { teams, groupCount, qualifiersPerGroup } = settings;
+  if (teams.length < 2) {
+    throw new Error('A tournament needs at least 2 teams');
+  }
+  const playerIds = new Set(players.map((player) => player.id));
+  const pairedIds = new Set<string>();
+  teams.forEach((team) => {
+    const [first, second] = team.playerIds;
+    if (first === second || !playerIds.has(first) || !playerIds.has(second)) {
+      throw new Error('Every team needs two different players from the session');
+    }
+    team.playerIds.forEach((id) => {
+      if (pairedIds.has(id)) {
+        const name = players.find((player) => player.id === id)?.name ?? 'A player';
+        throw new Error(`${name} is in more than one team`);
+      }
+      pairedIds.add(id);
+    });
+  });
+  const unpaired = players.find((player) => !pairedIds.has(player.id));
+  if (unpaired) {
+    throw new Error(`Put ${unpaired.name} in a team`);
+  }
+
+  if (!Number.isInteger(groupCount) || groupCount < 0 || groupCount * 2 > teams.length) {
+    throw new Error('Every group needs at least 2 teams');
+  }
+  if (groupCount > 0) {
+    const smallestGroup = Math.floor(teams.length / groupCount);
+    if (!Number.isInteger(qualifiersPerGroup) || qualifiersPerGroup < 1 || qualifiersPerGroup > smallestGroup) {
+      throw new Error(`Between 1 and ${smallestGroup} teams can go through from each group`);
+    }
+    if (groupCount * qualifiersPerGroup < 2) {
+      throw new Error('At least 2 teams must go through to the knockout');
+    }
+  }
+}
+
+// Teams dealt into groups by seed, snaking back and forth so every group
+// gets its share of strong and weaker teams: with 2 groups, seeds 1 and 4
+// go to group A and seeds 2 and 3 to group B
+export function getGroups(settings: TournamentSettings): TournamentTeam[][] {
+  const { teams, groupCount } = settings;
+  if (groupCount === 0) return [];
+  const groups = Array.from({ length: groupCount }, (): TournamentTeam[] => []);
+  teams.forEach((team, index) => {
+    const position = index % groupCount;
+    const forwards = Math.floor(index / groupCount) % 2 === 0;
+    groups[forwards ? position : groupCount - 1 - position].push(team);
+  });
+  return groups;
+}
+
+// Every pairing of a group's teams, in rounds where each team plays once
+// (or rests, with an odd number of teams)
+function roundRobin(teams: TournamentTeam[]): [TournamentTeam, TournamentTeam][][] {
+  const slots = teams.length % 2 === 0 ? [...teams] : [...teams, null];
+  const [fixed, ...rest] = slots;
+  return rest.map((_, round) => {
+    const order = [fixed, ...rest.map((__, i) => rest[(i + round) % rest.length])];
+    return Array.from({ length: order.length / 2 }, (__, i) => [order[i], order[order.length - 1 - i]])
+      .flatMap(([a, b]) => (a && b ? [[a, b] as [TournamentTeam, TournamentTeam]] : []));
+  });
+}
+
+function getGroupFixturesByGroup(settings: TournamentSettings): Fixture[][][] {
+  return getGroups(settings).map((teams, group) =>
+    roundRobin(teams).map((pairs) =>
+      pairs.map((pair) => ({
+        id: `group-${group}-${pair[0].id}-${pair[1].id}`,
+        label: `Group ${getGroupName(group)}`,
+        teams: pair,
+      }))
+    )
+  );
+}
+
+// Every group fixture, round by round of the round robin with the groups
+// taking turns, so teams get a rest between their matches
+export function getGroupFixtures(settings: TournamentSettings): Fixture[] {
+  const byGroup = getGroupFixturesByGroup(settings);
+  const rounds = Math.max(0, ...byGroup.map((rounds) => rounds.length));
+  return Array.from({ length: rounds }, (_, round) => byGroup.flatMap((rounds) => rounds[round] ?? [])).flat();
+}
+
+// Which side of a match a team played on
+function sideOf(match: Match, team: TournamentTeam): TeamSide {
+  return getTeams(match)[0].some((player) => player.id === team.playerIds[0]) ? 'team1' : 'team2';
+}
+
+// The finished match of a fixture. A match only counts while it is between
+// the fixture's teams, so a knockout match played before an earlier result
+// was changed no longer does.
+function findPlayedMatch(fixture: Fixture, matchStates: MatchState[]): MatchState | null {
+  const teamIds = fixture.teams.flatMap((team) => team.playerIds).sort().join();
+  return matchStates.find(
+    (ms) =>
+      ms.completed &&
+      ms.result &&
+      ms.match.fixtureId === fixture.id &&
+      ms.match.players.map((player) => player.id).sort().join() === teamIds
+  ) ?? null;
+}
+
+function getFixtureWinner(fixture: Fixture, matchState: MatchState | null): TournamentTeam | null {
+  if (!matchState?.result) return null;
+  const { winner } = matchState.result;
+  return fixture.teams.find((team) => sideOf(matchState.match, team) === winner) ?? null;
+}
+
+// Group tables ranked on wins, then game difference, then point difference.
+// Teams still level are split by seed.
+export function calculateGroupTables(settings: TournamentSettings, matchStates: MatchState[]): GroupRow[][] {
+  const seedOf = new Map(settings.teams.map((team, index) => [team.id, index]));
+  const byGroup = getGroupFixturesByGroup(settings);
+
+  return getGroups(settings).map((teams, group) => {
+    const rows = new Map<string, GroupRow>(
+      teams.map((team) => [
+        team.id,
+        { team, played: 0, wins: 0, losses: 0, gameDifference: 0, pointDifference: 0 },
+      ])
+    );
+    byGroup[group].flat().forEach((fixture) => {
+      const matchState = findPlayedMatch(fixture, matchStates);
+      if (!matchState?.result) return;
+      const { games, winner } = matchState.result;
+      fixture.teams.forEach((team) => {
+        const row = rows.get(team.id);
+        if (!row) return;
+        const side = sideOf(matchState.match, team);
+        const otherSide = side === 'team1' ? 'team2' : 'team1';
+        row.played++;
+        if (winner === side) row.wins++;
+        else row.losses++;
+        games.forEach((game) => {
+          row.gameDifference += Math.sign(game[side] - game[otherSide]);
+          row.pointDifference += game[side] - game[otherSide];
+        });
+      });
+    });
+
+    return Array.from(rows.values()).sort(
+      (a, b) =>
+        b.wins - a.wins ||
+        b.gameDifference - a.gameDifference ||
+        b.pointDifference - a.pointDifference ||
+        (seedOf.get(a.team.id) ?? 0) - (seedOf.get(b.team.id) ?? 0)
+    );
+  });
+}
+
+// Bracket lines top to bottom by seed, so the top seeds meet last and get
+// the byes: 1 v 8, 4 v 5, 2 v 7, 3 v 6 for a bracket of 8
+function getSeedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const length = order.length * 2;
+    order = order.flatMap((seed) => [seed, length + 1 - seed]);
+  }
+  return order;
+}
+
+// Smallest power of two that fits the teams
+function getBracketSize(teamCount: number): number {
+  let size = 2;
+  while (size < teamCount) size *= 2;
+  return size;
+}
+
+// The group and place behind each seed. Each place is seeded in turn, group
+// winners first in group order; within a place, each group's team takes the
+// free seed that keeps it furthest along the bracket from its own group's
+// teams, so a group's winner and runner-up are in opposite halves and can
+// only meet in the final.
+function seedGroupPlaces(groupCount: number, qualifiersPerGroup: number): { group: number; place: number }[] {
+  const size = getBracketSize(groupCount * qualifiersPerGroup);
+  const positionOf = new Map(getSeedOrder(size).map((seed, position) => [seed, position]));
+  // The knockout round in which the teams at two bracket lines would meet
+  const meetingRound = (a: number, b: number) => Math.floor(Math.log2(a ^ b)) + 1;
+
+  const seeded: { group: number; place: number }[] = [];
+  const linesByGroup = Array.from({ length: groupCount }, (): number[] => []);
+  for (let place = 0; place < qualifiersPerGroup; place++) {
+    const free = Array.from({ length: groupCount }, (_, index) => place * groupCount + index + 1);
+    for (let group = 0; group < groupCount; group++) {
+      const separation = (seed: number) =>
+        Math.min(...linesByGroup[group].map((line) => meetingRound(line, positionOf.get(seed) ?? 0)));
+      const seed = free.reduce((best, candidate) => (separation(candidate) > separation(best) ? candidate : best));
+      free.splice(free.indexOf(seed), 1);
+      seeded[seed - 1] = { group, place };
+      linesByGroup[group].push(positionOf.get(seed) ?? 0);
+    }
+  }
+  return seeded;
+}
+
+// The teams through to the knockout in seeding order, or all teams by seed
+// without groups. Group winners take the top seeds, then the runners-up and
+// so on (see seedGroupPlaces). Until the groups are done, each place says
+// where its team will come from.
+function getQualifiers(settings: TournamentSettings, matchStates: MatchState[]): BracketEntry[] {
+  const { teams, groupCount, qualifiersPerGroup } = settings;
+  if (groupCount === 0) return teams.map((team) => ({ team }));
+
+  const groupsDone = getGroupFixtures(settings).every((fixture) => findPlayedMatch(fixture, matchStates));
+  const tables = calculateGroupTables(settings, matchStates);
+  return seedGroupPlaces(groupCount, qualifiersPerGroup).map(({ group, place }) =>
+    groupsDone
+      ? { team: tables[group][place].team }
+      : { from: `Group ${getGroupName(group)} ${ordinal(place + 1)}` }
+  );
+}
+
+export function getKnockoutRoundName(round: number, rounds: number): string {
+  const remaining = rounds - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return 'Semi-finals';
+  if (remaining === 2) return 'Quarter-finals';
+  return `Round of ${2 ** (remaining + 1)}`;
+}
+
+function getKnockoutMatchLabel(round: number, rounds: number, index: number): string {
+  const remaining = rounds - round;
+  if (remaining === 0) return 'Final';
+  if (remaining === 1) return `Semi-final ${index + 1}`;
+  if (remaining === 2) return `Quarter-final ${index + 1}`;
+  return `Round of ${2 ** (remaining + 1)} match ${index + 1}`;
+}
+
+// The knockout round by round, first round first. Qualifiers that don't
+// fill a power of two leave byes for the top seeds.
+export function getBracket(settings: TournamentSettings, matchStates: MatchState[]): BracketMatch[][] {
+  const qualifiers = getQualifiers(settings, matchStates);
+  const size = getBracketSize(qualifiers.length);
+  const rounds = Math.log2(size);
+  const seeds = getSeedOrder(size);
+
+  const decide = (round: number, index: number, entries: [BracketEntry, BracketEntry]): BracketMatch => {
+    const id = `knockout-${round}-${index}`;
+    const label = getKnockoutMatchLabel(round, rounds, index);
+    const [first, second] = entries;
+    if ('team' in first && 'team' in second) {
+      const fixture: Fixture = { id, label, teams: [first.team, second.team] };
+      const matchState = findPlayedMatch(fixture, matchStates);
+      return { id, label, entries, fixture, winner: getFixtureWinner(fixture, matchState), matchState };
+    }
+    const walkover = 'team' in first && 'bye' in second ? first : 'bye' in first && 'team' in second ? second : null;
+    return { id, label, entries, fixture: null, winner: walkover?.team ?? null, matchState: null };
+  };
+
+  const bracket: BracketMatch[][] = [];
+  const entryFor = (seed: number): BracketEntry => qualifiers[seed - 1] ?? { bye: true };
+  bracket.push(
+    Array.from({ length: size / 2 }, (_, index) =>
+      decide(1, index, [entryFor(seeds[index * 2]), entryFor(seeds[index * 2 + 1])])
+    )
+  );
+  for (let round = 2; round <= rounds; round++) {
+    const previous = bracket[round - 2];
+    const entryFrom = (match: BracketMatch): BracketEntry =>
+      match.winner ? { team: match.winner } : { from: `Winner of ${match.label}` };
+    bracket.push(
+      Array.from({ length: previous.length / 2 }, (_, index) =>
+        decide(round, index, [entryFrom(previous[index * 2]), entryFrom(previous[index * 2 + 1])])
+      )
+    );
+  }
+  return bracket;
+}
+
+export function getChampion(settings: TournamentSettings, matchStates: MatchState[]): TournamentTeam | null {
+  const bracket = getBracket(settings, matchStates);
+  return bracket[bracket.length - 1][0].winner;
+}
+
+// Fixtures with both teams known that are still to be played: the group
+// fixtures in order, then the knockout once every group is done
+export function getOpenFixtures(settings: TournamentSettings, matchStates: MatchState[]): Fixture[] {
+  const groupFixtures = getGroupFixtures(settings).filter((fixture) => !findPlayedMatch(fixture, matchStates));
+  if (groupFixtures.length > 0) return groupFixtures;
+  return getBracket(settings, matchStates)
+    .flat()
+    .flatMap((match) => (match.fixture && !match.winner ? [match.fixture] : []));
+}
+
+// What each fixture is called, by fixture id
+export function getFixtureLabels(settings: TournamentSettings, matchStates: MatchState[]): Map<string, string> {
+  return new Map([
+    ...getGroupFixtures(settings).map((fixture): [string, string] => [fixture.id, fixture.label]),
+    ...getBracket(settings, matchStates).flat().map((match): [string, string] => [match.id, match.label]),
+  ]);
+}